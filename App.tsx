@@ -1,14 +1,28 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Note, NoteColor, NoteType, ViewMode, Theme, Folder, User, ProjectData, ProjectMilestone } from './types';
+import { Note, NoteColor, NoteType, ViewMode, Theme, Folder, User, ProjectData, ProjectMilestone, NoteRevision, SmartFolderQuery } from './types';
 import { processNoteWithAI, getDailyUsage } from './services/geminiService';
 // Removed non-existent parseImportFile from imports
 import { 
     loadNotes, saveNote, deleteNote, 
-    loadFolders, saveFolder, deleteFolder, 
-    syncAllNotes 
+    loadFolders, saveFolder, deleteFolder, deleteFolderWithNotes, undoFolderDeletion, FolderDeletion, FolderNoteAction, 
+    syncAllNotes, resolveNoteConflict, acceptRemoteNote, loadNoteRevisions, loadVaultConfig,
+    loadGuestData, GuestData, persistSchemaMigrations, purgeExpiredTrash, subscribeToNotes, subscribeToFolders, applyRecordChanges, isRemoteNoteNewer 
 } from './services/storageService';
+import { RecordChange } from './services/storageAdapters';
+import { emptyProjectData } from './services/migrationService';
+import { buildFolderTree, getFolderPath, isSmartFolder } from './services/folderService';
+import { renameNoteLinks, resolveNoteLink } from './services/linkService';
+import { createSearchIndex, updateSearchIndex, parseSearchQuery, getHighlightPattern } from './services/searchService';
+import { filterNotes, isSameQuery, isQueryEmpty, createSmartFolder, describeSmartQuery, toDayString, fromDayString } from './services/smartFolderService';
+import { EMBEDDINGS_EVENT, EmbeddingStatus, getEmbeddingStatus, syncEmbeddings, semanticSearch } from './services/embeddingService';
+import { AppRoute, parseRoute, buildRouteUrl, isSearchOnlyChange, currentUrl } from './services/routeService';
+import { Command, ShortcutAction, ShortcutMap, SHORTCUTS_EVENT, loadShortcuts, matchShortcut } from './services/commandService';
+import { DEFAULT_RETENTION_DAYS, loadRetentionDefault, resolveRetentionDays } from './services/retentionService';
 import { subscribeToAuthChanges } from './services/authService';
+import { SYNC_EVENT, SyncStatus, getSyncStatus } from './services/syncService';
+import { CONFLICT_EVENT, NoteConflict } from './services/conflictService';
+import { VAULT_EVENT, VaultState, getVaultState, isVaultEnabled } from './services/cryptoService';
 import NoteCard from './components/NoteCard';
 import NoteInput from './components/NoteInput';
 import MindMap from './components/MindMap';
@@ -21,6 +35,12 @@ import AnalyticsModal from './components/AnalyticsModal';
 import Sidebar from './components/Sidebar';
 import RightSidebar from './components/RightSidebar';
 import TrashModal from './components/TrashModal';
+import ConflictMergeModal from './components/ConflictMergeModal';
+import DeleteFolderModal from './components/DeleteFolderModal';
+import VaultUnlockModal from './components/VaultUnlockModal';
+import GuestMigrationModal from './components/GuestMigrationModal';
+import CommandPalette from './components/CommandPalette';
+import AskNotesPanel from './components/AskNotesPanel';
 import { NotebookView } from './components/NotebookView';
 import { Logo } from './components/Logo';
 
@@ -33,11 +53,14 @@ const App: React.FC = () => {
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
-  const [activeTab, setActiveTab] = useState<NoteType>('quick');
-  const [activeTagFilter, setActiveTagFilter] = useState<string | null>(null);
-  const [activeFolderId, setActiveFolderId] = useState<string | null>(null);
-  const [activeDateFilter, setActiveDateFilter] = useState<Date | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  // The URL sets the initial view; after that state drives the URL and back/forward drives state
+  const [initialRoute] = useState(() => parseRoute(window.location.pathname, window.location.search));
+  const [activeTab, setActiveTab] = useState<NoteType>(initialRoute.tab);
+  const [activeTagFilter, setActiveTagFilter] = useState<string | null>(initialRoute.tag);
+  const [activeFolderId, setActiveFolderId] = useState<string | null>(initialRoute.folderId);
+  const [activeDateFilter, setActiveDateFilter] = useState<Date | null>(() => initialRoute.date ? fromDayString(initialRoute.date) : null);
+  const [searchQuery, setSearchQuery] = useState(initialRoute.search);
+  const [pendingNoteId, setPendingNoteId] = useState<string | null>(initialRoute.noteId); // From a /note/<id> URL, until notes load
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [expandedNote, setExpandedNote] = useState<Note | null>(null);
   const [viewingImage, setViewingImage] = useState<string | null>(null);
@@ -45,6 +68,21 @@ const App: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
   const [showTrash, setShowTrash] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus);
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+  const [vaultState, setVaultState] = useState<VaultState>(getVaultState);
+  const [stayLocked, setStayLocked] = useState(false);
+  const [guestData, setGuestData] = useState<GuestData | null>(null);
+  const [deletingFolderId, setDeletingFolderId] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+  const [folderUndo, setFolderUndo] = useState<{ message: string; undo: FolderDeletion } | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [searchMode, setSearchMode] = useState<'keyword' | 'meaning'>('keyword');
+  const [semanticIds, setSemanticIds] = useState<string[] | null>(null); // Meaning-search hits, best first
+  const [embeddingStatus, setEmbeddingStatus] = useState<EmbeddingStatus>(getEmbeddingStatus);
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(loadShortcuts);
+  const searchInputRef = useRef<HTMLInputElement>(null);
   
   const [darkMode, setDarkMode] = useState(() => localStorage.getItem('ideaweaver_darkmode') !== 'false');
   const [theme, setTheme] = useState<Theme>(() => (localStorage.getItem('ideaweaver_theme') as Theme) || 'default');
@@ -89,6 +127,87 @@ const App: React.FC = () => {
       return () => unsubscribe();
   }, []);
 
+  const lastRouteRef = useRef<AppRoute>(initialRoute);
+
+  useEffect(() => {
+      const route: AppRoute = {
+          tab: activeTab,
+          folderId: activeFolderId,
+          tag: activeTagFilter,
+          date: activeDateFilter ? toDayString(activeDateFilter) : null,
+          search: searchQuery,
+          noteId: expandedNote?.id ?? pendingNoteId
+      };
+      const url = buildRouteUrl(route);
+      if (url === buildRouteUrl(parseRoute(window.location.pathname, window.location.search))) {
+          // Already there (initial load or back/forward); just normalise the address
+          if (url !== currentUrl()) window.history.replaceState(null, '', url);
+      } else if (isSearchOnlyChange(lastRouteRef.current, route)) {
+          window.history.replaceState(null, '', url);
+      } else {
+          window.history.pushState(null, '', url);
+      }
+      lastRouteRef.current = route;
+  }, [activeTab, activeFolderId, activeTagFilter, activeDateFilter, searchQuery, expandedNote?.id, pendingNoteId]);
+
+  useEffect(() => {
+      const handlePopState = () => {
+          const route = parseRoute(window.location.pathname, window.location.search);
+          setActiveTab(route.tab);
+          setActiveFolderId(route.folderId);
+          setActiveTagFilter(route.tag);
+          setActiveDateFilter(route.date ? fromDayString(route.date) : null);
+          setSearchQuery(route.search);
+          if (pendingNoteId) return;
+          setExpandedNote(route.noteId ? notes.find(n => n.id === route.noteId && !n.isDeleted) || null : null);
+      };
+      window.addEventListener('popstate', handlePopState);
+      return () => window.removeEventListener('popstate', handlePopState);
+  }, [notes, pendingNoteId]);
+
+  useEffect(() => {
+      const handleEmbeddingsUpdate = (e: Event) => setEmbeddingStatus((e as CustomEvent<EmbeddingStatus>).detail);
+      window.addEventListener(EMBEDDINGS_EVENT, handleEmbeddingsUpdate);
+      return () => window.removeEventListener(EMBEDDINGS_EVENT, handleEmbeddingsUpdate);
+  }, []);
+
+  useEffect(() => {
+      const handleShortcutsUpdate = (e: Event) => setShortcuts((e as CustomEvent<ShortcutMap>).detail);
+      window.addEventListener(SHORTCUTS_EVENT, handleShortcutsUpdate);
+      return () => window.removeEventListener(SHORTCUTS_EVENT, handleShortcutsUpdate);
+  }, []);
+
+  useEffect(() => {
+      if (!folderUndo) return;
+      const timer = setTimeout(() => setFolderUndo(null), 8000);
+      return () => clearTimeout(timer);
+  }, [folderUndo]);
+
+  useEffect(() => {
+      const handleSyncUpdate = (e: Event) => setSyncStatus((e as CustomEvent<SyncStatus>).detail);
+      window.addEventListener(SYNC_EVENT, handleSyncUpdate);
+      return () => window.removeEventListener(SYNC_EVENT, handleSyncUpdate);
+  }, []);
+
+  useEffect(() => {
+      const handleConflict = (e: Event) => {
+          const conflict = (e as CustomEvent<NoteConflict>).detail;
+          setConflicts(prev => [...prev.filter(c => c.local.id !== conflict.local.id), conflict]);
+      };
+      window.addEventListener(CONFLICT_EVENT, handleConflict);
+      return () => window.removeEventListener(CONFLICT_EVENT, handleConflict);
+  }, []);
+
+  useEffect(() => {
+      const handleVaultUpdate = (e: Event) => {
+          const state = (e as CustomEvent<VaultState>).detail;
+          setVaultState(state);
+          if (state !== 'locked') setStayLocked(false);
+      };
+      window.addEventListener(VAULT_EVENT, handleVaultUpdate);
+      return () => window.removeEventListener(VAULT_EVENT, handleVaultUpdate);
+  }, []);
+
   const canEdit = currentUser ? currentUser.permission === 'edit' : true; 
   const storageOwner = currentUser ? currentUser.uid : null;
 
@@ -97,31 +216,79 @@ const App: React.FC = () => {
     const fetchData = async () => {
         setIsLoadingData(true);
         try {
+            await loadVaultConfig(storageOwner);
             const fetchedNotes = await loadNotes(storageOwner);
             const fetchedFolders = await loadFolders(storageOwner);
             
-            const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
-            const validNotes = [];
-            for (const n of fetchedNotes) {
-                if (n.isDeleted && (n.deletedAt || 0) < thirtyDaysAgo) {
-                    await deleteNote(n.id, storageOwner);
-                } else {
-                    validNotes.push(n);
-                }
-            }
+            const retention = resolveRetentionDays(currentUser, await loadRetentionDefault());
+            setRetentionDays(retention);
+            const validNotes = purgeExpiredTrash(fetchedNotes, retention, storageOwner, currentUser?.username || 'Guest');
             
             setNotes(validNotes);
             setFolders(fetchedFolders);
+            if (pendingNoteId) {
+                const linked = validNotes.find(n => n.id === pendingNoteId && !n.isDeleted);
+                if (linked) handleExpandNote(linked);
+                else alert('That note could not be found. It may have been deleted or belong to another account.');
+                setPendingNoteId(null);
+            }
+            if (canEdit) persistSchemaMigrations(validNotes, fetchedFolders, storageOwner).catch(e => console.warn("Schema upgrade deferred", e));
+
+            // Guest notes are invisible once signed in; offer to move them into the account
+            if (storageOwner) {
+                const guest = await loadGuestData();
+                setGuestData(guest.notes.length > 0 || guest.folders.length > 0 ? guest : null);
+            }
         } catch (e) {
             console.error("Failed to load data", e);
         } finally {
             setIsLoadingData(false);
         }
     };
-    fetchData();
+    // Live updates start once the initial load has set the revision baseline
+    let unsubscribe = () => {};
+    let cancelled = false;
+    fetchData().then(() => {
+        if (cancelled) return;
+        const stopNotes = subscribeToNotes(storageOwner, applyRemoteNoteChanges);
+        const stopFolders = subscribeToFolders(storageOwner, changes => setFolders(prev => [...applyRecordChanges(prev, changes)].sort((a, b) => a.order - b.order)));
+        unsubscribe = () => { stopNotes(); stopFolders(); };
+    });
     setDailyUsage(getDailyUsage());
+    return () => { cancelled = true; unsubscribe(); };
   }, [storageOwner, isAuthChecking]);
 
+  // A note open in EditNoteModal is not replaced under the user; its remote changes wait until the editor closes.
+  const editingNoteIdRef = useRef<string | null>(null);
+  const heldRemoteChanges = useRef(new Map<string, RecordChange<Note>>());
+
+  const applyRemoteNoteChanges = (changes: RecordChange<Note>[]) => {
+      const live = changes.filter(change => {
+          const id = change.type === 'remove' ? change.id : change.record.id;
+          if (id !== editingNoteIdRef.current) return true;
+          heldRemoteChanges.current.set(id, change);
+          return false;
+      });
+      if (live.length === 0) return;
+      live.forEach(change => { if (change.type === 'upsert') acceptRemoteNote(change.record); });
+      setNotes(prev => applyRecordChanges(prev, live));
+      setExpandedNote(prev => {
+          if (!prev) return prev;
+          const change = live.find(c => (c.type === 'remove' ? c.id : c.record.id) === prev.id);
+          if (!change) return prev;
+          return change.type === 'remove' ? null : change.record;
+      });
+  };
+
+  useEffect(() => {
+      editingNoteIdRef.current = editingNote?.id ?? null;
+      if (editingNote || heldRemoteChanges.current.size === 0) return;
+      // Anything the user saved over meanwhile went through the conflict dialog already
+      const held = Array.from(heldRemoteChanges.current.values()).filter(c => c.type === 'remove' || isRemoteNoteNewer(c.record));
+      heldRemoteChanges.current.clear();
+      if (held.length > 0) applyRemoteNoteChanges(held);
+  }, [editingNote]);
+
   const handleLoginSuccess = (user: User) => setCurrentUser(user);
   const handleLogout = () => { setCurrentUser(null); setNotes([]); setFolders([]); };
 
@@ -133,6 +300,56 @@ const App: React.FC = () => {
       setSearchQuery('');
   };
 
+  const handleNewNote = (type: NoteType) => {
+      if (!canEdit) return;
+      handleTabChange(type);
+      setViewMode('grid');
+      // NoteInput only mounts in grid view, so wait a frame before focusing its title
+      requestAnimationFrame(() => {
+          const input = document.querySelector<HTMLInputElement>('#note-input input[type="text"]');
+          input?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+          input?.focus();
+      });
+  };
+
+  const handleSelectTag = (tag: string) => {
+      clearFilters();
+      // Stay on the current tab when it has the tag, otherwise jump to a tab that does
+      const match = activeNotes.find(n => n.type === activeTab && n.tags.includes(tag)) || activeNotes.find(n => n.tags.includes(tag));
+      if (match && match.type !== activeTab) setActiveTab(match.type);
+      setActiveTagFilter(tag);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+      switch (action) {
+          case 'palette.open': return setShowPalette(open => !open);
+          case 'search.focus': return searchInputRef.current?.focus();
+          case 'note.new': return handleNewNote(activeTab);
+          case 'view.grid': return setViewMode('grid');
+          case 'view.mindmap': return setViewMode('mindmap');
+          case 'open.settings': return setShowSettings(true);
+          case 'open.analytics': return setShowAnalytics(true);
+          case 'open.trash': return setShowTrash(true);
+          case 'open.chat': return setShowChat(open => !open);
+          case 'theme.toggle': return setDarkMode(dark => !dark);
+      }
+  };
+
+  // The listener is registered once and reads the current bindings and handlers through this ref
+  const shortcutStateRef = useRef({ shortcuts, runShortcut });
+  shortcutStateRef.current = { shortcuts, runShortcut };
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const action = matchShortcut(e, shortcutStateRef.current.shortcuts);
+          if (!action) return;
+          e.preventDefault();
+          shortcutStateRef.current.runShortcut(action);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleExpandNote = async (note: Note) => {
     setExpandedNote(note);
     const updatedNote = { ...note, accessCount: (note.accessCount || 0) + 1 };
@@ -153,6 +370,14 @@ const App: React.FC = () => {
     if (useAI && !currentUser) {
       useAI = false;
     }
+    // Encrypted vaults never send note text to the AI
+    if (useAI && isVaultEnabled()) {
+      useAI = false;
+    }
+    if (vaultState === 'locked') {
+      alert('Unlock your vault to add notes.');
+      return;
+    }
 
     setIsProcessing(true);
     try {
@@ -179,7 +404,7 @@ const App: React.FC = () => {
         }
 
         if (type === 'project') {
-            if (!processed.projectData) processed.projectData = { deliverables: [], milestones: [], timeline: [], objectives: [] };
+            if (!processed.projectData) processed.projectData = emptyProjectData();
             if (extraProjectData) {
               processed.projectData.manualProgress = extraProjectData.manualProgress;
               processed.projectData.isCompleted = extraProjectData.isCompleted;
@@ -222,6 +447,10 @@ const App: React.FC = () => {
       if (!canEdit) return;
       const target = notes.find(n => n.id === id);
       if (!target) return;
+      if (target.encrypted) {
+          alert('Unlock your vault to edit encrypted notes.');
+          return;
+      }
       
       const contentTags = extractHashtags(content);
       const titleTags = extractHashtags(title);
@@ -235,14 +464,30 @@ const App: React.FC = () => {
         tags: mergedTags 
       };
       
-      setNotes(prev => prev.map(n => n.id === id ? updated : n));
-      await saveNote(updated, storageOwner);
+      // Keep [[links]] pointing at this note when its title changes
+      const relinked = new Map(renameNoteLinks(notes.map(n => n.id === id ? updated : n), updated, target.title).map(n => [n.id, n]));
+      const saved = relinked.get(id) || updated;
+      relinked.delete(id);
+
+      setNotes(prev => prev.map(n => n.id === id ? saved : relinked.get(n.id) || n));
+      await saveNote(saved, storageOwner);
+      for (const note of relinked.values()) await saveNote(note, storageOwner);
+  };
+
+  const handleOpenNoteLink = (title: string) => {
+      const target = resolveNoteLink(title, notes);
+      if (target) handleExpandNote(target);
+      else alert(`There is no note titled "${title}" yet.`);
   };
 
   const handleUpdateProjectData = async (id: string, data: ProjectData) => {
       if (!canEdit) return;
       const target = notes.find(n => n.id === id);
       if (!target) return;
+      if (target.encrypted) {
+          alert('Unlock your vault to edit encrypted notes.');
+          return;
+      }
       
       const updated = { ...target, projectData: data };
       setNotes(prev => prev.map(n => n.id === id ? updated : n));
@@ -250,10 +495,44 @@ const App: React.FC = () => {
       await saveNote(updated, storageOwner);
   };
 
+  const handleReloadData = async () => {
+      const [fetchedNotes, fetchedFolders] = await Promise.all([loadNotes(storageOwner), loadFolders(storageOwner)]);
+      setNotes(purgeExpiredTrash(fetchedNotes, retentionDays, storageOwner, currentUser?.username || 'Guest'));
+      setFolders(fetchedFolders);
+  };
+
+  const handleRetentionChanged = (days: number, user: User | null) => {
+      if (user) setCurrentUser(user);
+      setRetentionDays(days);
+      setNotes(prev => purgeExpiredTrash(prev, days, storageOwner, currentUser?.username || 'Guest'));
+  };
+
+  const handleRestoreRevision = async (id: string, revision: NoteRevision) => {
+      if (!canEdit) return;
+      const target = notes.find(n => n.id === id);
+      if (!target) return;
+      if (target.encrypted) {
+          alert('Unlock your vault to edit encrypted notes.');
+          return;
+      }
+
+      const restored = {
+        ...target,
+        title: revision.title,
+        content: revision.content,
+        category: revision.category,
+        tags: revision.tags,
+        projectData: revision.projectData
+      };
+      const saved = await saveNote(restored, storageOwner);
+      setNotes(prev => prev.map(n => n.id === id ? saved : n));
+      if (expandedNote?.id === id) setExpandedNote(saved);
+  };
+
   const handleToggleCheckbox = async (noteId: string, checkboxIndex: number) => {
       if (!canEdit) return;
       const targetNote = notes.find(n => n.id === noteId);
-      if (!targetNote) return;
+      if (!targetNote || targetNote.encrypted) return;
       const regex = /\[([ xX]?)\]/g;
       let currentIdx = 0;
       let newContent = targetNote.content;
@@ -337,26 +616,89 @@ const App: React.FC = () => {
       }
   };
 
-  const handleCreateFolder = async (name: string) => {
+  const handleResolveConflict = async (merged: Note, remote: Note) => {
+      setConflicts(prev => prev.slice(1));
+      setNotes(prev => prev.map(n => n.id === merged.id ? merged : n));
+      if (expandedNote?.id === merged.id) setExpandedNote(merged);
+      await resolveNoteConflict(merged, remote, storageOwner);
+  };
+
+  const handleKeepRemote = (remote: Note) => {
+      setConflicts(prev => prev.slice(1));
+      acceptRemoteNote(remote);
+      setNotes(prev => prev.map(n => n.id === remote.id ? remote : n));
+      if (expandedNote?.id === remote.id) setExpandedNote(remote);
+  };
+
+  const handleCreateFolder = async (name: string, parentId?: string) => {
       if (!canEdit) return;
-      const newFolder: Folder = { id: crypto.randomUUID(), name, order: folders.length };
+      const siblings = folders.filter(f => f.parentId === parentId).length;
+      const newFolder: Folder = { id: crypto.randomUUID(), name, order: siblings, ...(parentId ? { parentId } : {}) };
       setFolders(prev => [...prev, newFolder]);
       await saveFolder(newFolder, storageOwner);
   };
 
-  const handleDeleteFolder = async (id: string) => {
+  const handleReorderFolders = async (changed: Folder[]) => {
+      if (!canEdit) return;
+      const byId = new Map(changed.map(f => [f.id, f]));
+      setFolders(prev => prev.map(f => byId.get(f.id) || f).sort((a, b) => a.order - b.order));
+      for (const folder of changed) await saveFolder(folder, storageOwner);
+  };
+
+  const handleSaveSmartFolder = async () => {
+      if (!canEdit || isQueryEmpty(currentQuery)) return;
+      const name = prompt('Name this smart folder', describeSmartQuery(currentQuery, folders));
+      if (!name?.trim()) return;
+      const smartFolder = createSmartFolder(name, currentQuery, folders);
+      setFolders(prev => [...prev, smartFolder]);
+      await saveFolder(smartFolder, storageOwner);
+  };
+
+  const handleApplySmartFolder = (folder: Folder) => {
+      const query = folder.smartQuery || {};
+      if (query.noteType) setActiveTab(query.noteType);
+      setActiveTagFilter(query.tag || null);
+      setActiveFolderId(query.folderId || null);
+      setActiveDateFilter(query.date ? fromDayString(query.date) : null);
+      setSearchQuery(query.search || '');
+  };
+
+  const handleDeleteSmartFolder = async (id: string) => {
       if (!canEdit) return;
       setFolders(prev => prev.filter(f => f.id !== id));
-      const updatedNotes = notes.map(n => n.folderId === id ? { ...n, folderId: undefined } : n);
-      setNotes(updatedNotes);
       await deleteFolder(id, storageOwner);
   };
 
+  const handleDeleteFolder = async (id: string, action: FolderNoteAction, includeSubfolders: boolean) => {
+      if (!canEdit) return;
+      setDeletingFolderId(null);
+      try {
+          const result = await deleteFolderWithNotes(id, action, includeSubfolders, { notes, folders }, storageOwner);
+          setFolders(result.folders);
+          setNotes(result.notes);
+          if (activeFolderId && !result.folders.some(f => f.id === activeFolderId)) setActiveFolderId(null);
+          const name = folders.find(f => f.id === id)?.name || 'Folder';
+          setFolderUndo({ message: `Deleted "${name}"`, undo: result.undo });
+      } catch (error: any) {
+          alert(error.message || 'Could not delete the folder.');
+      }
+  };
+
+  const handleUndoFolderDeletion = async () => {
+      if (!folderUndo) return;
+      const { undo } = folderUndo;
+      setFolderUndo(null);
+      const restored = new Map((await undoFolderDeletion(undo, notes, storageOwner)).map(n => [n.id, n]));
+      const restoredFolders = new Map([...undo.deleted, ...undo.reparented].map(f => [f.id, f]));
+      setNotes(prev => prev.map(n => restored.get(n.id) || n));
+      setFolders(prev => [...prev.filter(f => !restoredFolders.has(f.id)), ...restoredFolders.values()].sort((a, b) => a.order - b.order));
+  };
+
   const handleToggleProjectCompletion = async (noteId: string) => {
       if (!canEdit) return;
       const target = notes.find(n => n.id === noteId);
-      if (!target || target.type !== 'project') return;
-      const projectData = target.projectData || { deliverables: [], milestones: [], timeline: [], objectives: [] };
+      if (!target || target.type !== 'project' || target.encrypted) return;
+      const projectData = target.projectData || emptyProjectData();
       const isFinishing = !projectData.isCompleted;
       const newManualProgress = isFinishing ? 100 : (projectData.manualProgress === 100 ? 99 : projectData.manualProgress || 0);
       const updated = { ...target, projectData: { ...projectData, isCompleted: isFinishing, manualProgress: newManualProgress } };
@@ -365,23 +707,74 @@ const App: React.FC = () => {
       await saveNote(updated, storageOwner);
   };
 
+  const pendingNoteIds = useMemo(() => new Set(syncStatus.pendingNoteIds), [syncStatus]);
+  const pendingSyncCount = syncStatus.pendingNoteIds.length + syncStatus.pendingFolderIds.length;
   const activeNotes = useMemo(() => notes.filter(n => !n.isDeleted), [notes]);
   const trashedNotes = useMemo(() => notes.filter(n => n.isDeleted), [notes]);
 
-  const filteredNotes = useMemo(() => {
-      let result = activeNotes.filter(n => n.type === activeTab);
-      if (activeFolderId) result = result.filter(n => n.folderId === activeFolderId);
-      if (activeTagFilter) result = result.filter(n => n.tags.includes(activeTagFilter));
-      if (activeDateFilter) {
-          const filterStr = activeDateFilter.toDateString();
-          result = result.filter(n => new Date(n.createdAt).toDateString() === filterStr);
-      }
-      if (searchQuery) {
-          const q = searchQuery.toLowerCase();
-          result = result.filter(n => n.title.toLowerCase().includes(q) || n.content.toLowerCase().includes(q));
+  // Updated in place: only notes whose object changed since the last render are re-indexed
+  const searchIndexRef = useRef(createSearchIndex());
+  const searchIndex = useMemo(() => ({ ...updateSearchIndex(searchIndexRef.current, activeNotes) }), [activeNotes]);
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const semanticAvailable = embeddingStatus.provider !== null && vaultState === 'disabled';
+  const searchByMeaning = searchMode === 'meaning' && semanticAvailable && !!searchQuery.trim();
+  const highlightPattern = useMemo(() => searchByMeaning ? null : getHighlightPattern(parsedQuery), [parsedQuery, searchByMeaning]);
+
+  // Saved notes are embedded in the background; debounced so a burst of changes is one pass
+  useEffect(() => {
+      if (isAuthChecking || isLoadingData) return;
+      const timer = setTimeout(() => syncEmbeddings(activeNotes, storageOwner), 2000);
+      return () => clearTimeout(timer);
+  }, [activeNotes, storageOwner, isAuthChecking, isLoadingData, vaultState, embeddingStatus.provider]);
+
+  useEffect(() => {
+      if (!searchByMeaning) {
+          setSemanticIds(null);
+          return;
       }
-      return result;
-  }, [activeNotes, activeTab, activeFolderId, activeTagFilter, activeDateFilter, searchQuery]);
+      let cancelled = false;
+      const timer = setTimeout(() => {
+          semanticSearch(searchQuery, activeNotes, storageOwner)
+              .then(results => { if (!cancelled) setSemanticIds(results.map(r => r.note.id)); })
+              .catch(e => {
+                  console.warn('Semantic search failed', e);
+                  if (!cancelled) setSemanticIds([]);
+              });
+      }, 400);
+      return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchByMeaning, searchQuery, activeNotes, storageOwner, embeddingStatus.isIndexing]);
+
+  const currentQuery = useMemo<SmartFolderQuery>(() => ({
+      noteType: activeTab,
+      tag: activeTagFilter || undefined,
+      folderId: activeFolderId || undefined,
+      date: activeDateFilter ? toDayString(activeDateFilter) : undefined,
+      search: searchQuery || undefined
+  }), [activeTab, activeTagFilter, activeFolderId, activeDateFilter, searchQuery]);
+
+  const filteredNotes = useMemo(() => {
+      if (!searchByMeaning) return filterNotes(activeNotes, currentQuery, { folders, index: searchIndex });
+      // Ranked by meaning; the tab, folder, tag and day filters still apply
+      const visible = new Map(filterNotes(activeNotes, { ...currentQuery, search: undefined }, { folders, index: searchIndex }).map(n => [n.id, n]));
+      return (semanticIds || []).flatMap(id => visible.get(id) || []);
+  }, [activeNotes, currentQuery, folders, searchIndex, searchByMeaning, semanticIds]);
+
+  // Smart folders re-run their saved filters against the live notes on every change
+  const smartFolders = useMemo(() => folders.filter(isSmartFolder), [folders]);
+  const smartFolderCounts = useMemo(
+      () => new Map(smartFolders.map(f => [f.id, filterNotes(activeNotes, f.smartQuery!, { folders, index: searchIndex }).length])),
+      [smartFolders, activeNotes, folders, searchIndex]
+  );
+  const activeSmartFolderId = smartFolders.find(f => isSameQuery(f.smartQuery!, currentQuery))?.id || null;
+
+  // Chip bar: the active folder's path, then its subfolders (or the top level when nothing is selected)
+  const activeFolderPath = useMemo(() => getFolderPath(activeFolderId || undefined, folders), [activeFolderId, folders]);
+  const folderChips = useMemo(() => {
+      const tree = buildFolderTree(folders);
+      if (!activeFolderId) return tree.map(n => n.folder);
+      const find = (nodes: typeof tree): typeof tree => nodes.flatMap(n => n.folder.id === activeFolderId ? n.children : find(n.children));
+      return find(tree).map(n => n.folder);
+  }, [folders, activeFolderId]);
 
   const clearFilters = () => {
     setActiveFolderId(null);
@@ -392,6 +785,41 @@ const App: React.FC = () => {
 
   const isFiltered = activeFolderId || activeTagFilter || activeDateFilter || searchQuery;
 
+  // Only built while the palette is open; with thousands of notes this is not free
+  const paletteCommands = useMemo<Command[]>(() => {
+      if (!showPalette) return [];
+      const noteTypes: NoteType[] = ['quick', 'notebook', 'deep', 'code', 'project', 'contact', 'document'];
+      const actions: Command[] = [
+          ...(canEdit ? noteTypes.map(type => ({
+              id: `action:new-${type}`, label: `New ${type} note`, group: 'Actions' as const,
+              shortcut: type === activeTab ? shortcuts['note.new'] : undefined, run: () => handleNewNote(type)
+          })) : []),
+          { id: 'action:view-grid', label: 'Switch to grid view', group: 'Actions', shortcut: shortcuts['view.grid'], run: () => setViewMode('grid') },
+          { id: 'action:view-mindmap', label: 'Switch to mind map view', group: 'Actions', shortcut: shortcuts['view.mindmap'], run: () => setViewMode('mindmap') },
+          { id: 'action:settings', label: 'Open settings', group: 'Actions', keywords: 'preferences shortcuts', shortcut: shortcuts['open.settings'], run: () => setShowSettings(true) },
+          { id: 'action:analytics', label: 'Open analytics', group: 'Actions', keywords: 'stats', shortcut: shortcuts['open.analytics'], run: () => setShowAnalytics(true) },
+          { id: 'action:chat', label: 'Ask your notes', group: 'Actions', keywords: 'chat question ai answer', shortcut: shortcuts['open.chat'], run: () => setShowChat(true) },
+          { id: 'action:trash', label: 'Open trash', group: 'Actions', keywords: 'deleted restore', shortcut: shortcuts['open.trash'], run: () => setShowTrash(true) },
+          { id: 'action:theme', label: darkMode ? 'Switch to light mode' : 'Switch to dark mode', group: 'Actions', keywords: 'theme toggle dark light', shortcut: shortcuts['theme.toggle'], run: () => setDarkMode(dark => !dark) },
+          { id: 'action:search', label: 'Search notes', group: 'Actions', keywords: 'find filter', shortcut: shortcuts['search.focus'], run: () => searchInputRef.current?.focus() },
+          ...(isFiltered ? [{ id: 'action:clear-filters', label: 'Clear filters', group: 'Actions' as const, run: clearFilters }] : [])
+      ];
+      const folderCommands: Command[] = folders.map(folder => isSmartFolder(folder)
+          ? { id: `folder:${folder.id}`, label: `✨ ${folder.name}`, group: 'Folders', hint: describeSmartQuery(folder.smartQuery!, folders), run: () => handleApplySmartFolder(folder) }
+          : { id: `folder:${folder.id}`, label: folder.name, group: 'Folders', hint: getFolderPath(folder.id, folders).map(f => f.name).join(' › '), run: () => setActiveFolderId(folder.id) });
+      const tags = Array.from(new Set(activeNotes.flatMap(n => n.tags))).sort();
+      const tagCommands: Command[] = tags.map(tag => ({ id: `tag:${tag}`, label: `#${tag}`, group: 'Tags', run: () => handleSelectTag(tag) }));
+      const noteCommands: Command[] = [...activeNotes].sort((a, b) => b.createdAt - a.createdAt).map(note => ({
+          id: `note:${note.id}`,
+          label: note.title || 'Untitled',
+          group: 'Notes',
+          hint: [note.type, getFolderPath(note.folderId, folders).map(f => f.name).join(' › ')].filter(Boolean).join(' · '),
+          keywords: note.tags.join(' '),
+          run: () => handleExpandNote(note)
+      }));
+      return [...actions, ...folderCommands, ...tagCommands, ...noteCommands];
+  }, [showPalette, activeNotes, folders, shortcuts, canEdit, darkMode, activeTab, isFiltered]);
+
   if (isAuthChecking) {
       return (
           <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900">
@@ -414,7 +842,13 @@ const App: React.FC = () => {
                         <button onClick={() => setViewMode('mindmap')} className={`p-1.5 rounded-md transition-all ${viewMode === 'mindmap' ? 'bg-white dark:bg-slate-600 shadow-sm text-primary-600' : 'text-slate-400'}`}><svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="3"></circle><path d="M12 9V3"></path><path d="M12 21v-6"></path><path d="M9 12H3"></path><path d="M21 12h-6"></path></svg></button>
                     </div>
                     <button onClick={() => setShowAnalytics(true)} className="flex items-center gap-1 text-sm font-bold text-slate-600 hover:text-primary-600 dark:text-slate-300">📊 Analytics</button>
-                    <input type="text" placeholder="Search..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="bg-slate-100 dark:bg-slate-700 px-3 py-1 rounded-full text-sm outline-none w-full max-w-xs dark:text-white border border-transparent focus:border-primary-400 transition-all" />
+                    <button onClick={() => setShowChat(!showChat)} className={`flex items-center gap-1 text-sm font-bold hover:text-primary-600 ${showChat ? 'text-primary-600' : 'text-slate-600 dark:text-slate-300'}`}>💬 Ask</button>
+                    <div className="relative w-full max-w-xs">
+                        <input ref={searchInputRef} type="text" placeholder={searchMode === 'meaning' && semanticAvailable ? 'Describe what you are looking for...' : 'Search... (tag: type: folder: before: "phrase" -word)'} title={searchMode === 'meaning' && semanticAvailable ? 'Finds notes with a similar meaning, even when the words differ' : 'Combine words with filters: tag:infra type:project folder:Ops category:work before:2026-01-01 after:2025-06-30 "exact phrase" -exclude'} value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className={`bg-slate-100 dark:bg-slate-700 px-3 py-1 rounded-full text-sm outline-none w-full dark:text-white border border-transparent focus:border-primary-400 transition-all ${semanticAvailable ? 'pr-9' : ''}`} />
+                        {semanticAvailable && (
+                            <button onClick={() => setSearchMode(searchMode === 'meaning' ? 'keyword' : 'meaning')} title={searchMode === 'meaning' ? 'Searching by meaning. Click to match words instead.' : 'Matching words. Click to search by similar meaning.'} className={`absolute right-1 top-1/2 -translate-y-1/2 w-6 h-6 rounded-full text-sm font-black transition-all ${searchMode === 'meaning' ? 'bg-primary-600 text-white' : 'text-slate-400 hover:text-primary-600'}`}>≈</button>
+                        )}
+                    </div>
                     <LoginWidget currentUser={currentUser?.username || null} onLoginSuccess={handleLoginSuccess} onLogout={handleLogout} />
                     <button onClick={() => setShowSettings(true)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full">⚙️</button>
                 </div>
@@ -431,6 +865,7 @@ const App: React.FC = () => {
                         activeType={activeTab} 
                         readOnly={!canEdit} 
                         isGuest={!currentUser}
+                        notes={activeNotes}
                         enableImages={enableImages} 
                     />
                 )}
@@ -455,11 +890,23 @@ const App: React.FC = () => {
                             >
                                 All Folders
                             </button>
-                            {folders.map(folder => (
+                            {activeFolderPath.map(folder => (
+                                <React.Fragment key={folder.id}>
+                                    <span className="text-xs text-slate-400">›</span>
+                                    <button 
+                                        onClick={() => setActiveFolderId(folder.id)}
+                                        className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all border ${activeFolderId === folder.id ? 'bg-primary-600 text-white border-primary-600 shadow-md' : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-primary-400'}`}
+                                    >
+                                        📂 {folder.name}
+                                    </button>
+                                </React.Fragment>
+                            ))}
+                            {folderChips.length > 0 && activeFolderPath.length > 0 && <span className="w-px h-5 bg-slate-200 dark:bg-slate-700 mx-1" />}
+                            {folderChips.map(folder => (
                                 <button 
                                     key={folder.id}
                                     onClick={() => setActiveFolderId(folder.id)}
-                                    className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all border ${activeFolderId === folder.id ? 'bg-primary-600 text-white border-primary-600 shadow-md' : 'bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-primary-400'}`}
+                                    className="px-3 py-1.5 rounded-full text-xs font-bold transition-all border bg-white dark:bg-slate-800 text-slate-500 border-slate-200 dark:border-slate-700 hover:border-primary-400"
                                 >
                                     📂 {folder.name}
                                 </button>
@@ -471,12 +918,17 @@ const App: React.FC = () => {
                         <div className="mb-4 p-2 bg-primary-50 dark:bg-primary-900/10 border border-primary-100 dark:border-primary-900/30 rounded-lg flex items-center justify-between text-xs animate-[fadeIn_0.2s_ease-out]">
                             <div className="flex items-center gap-2">
                                 <span className="font-bold text-primary-700 dark:text-primary-400 uppercase tracking-tighter">Active Filters:</span>
-                                {activeFolderId && <span className="px-2 py-0.5 bg-white dark:bg-slate-800 rounded border shadow-sm flex items-center gap-1">Folder: {folders.find(f => f.id === activeFolderId)?.name} <button onClick={() => setActiveFolderId(null)}>✕</button></span>}
+                                {activeFolderId && <span className="px-2 py-0.5 bg-white dark:bg-slate-800 rounded border shadow-sm flex items-center gap-1">Folder: {activeFolderPath.map(f => f.name).join(' › ')} <button onClick={() => setActiveFolderId(null)}>✕</button></span>}
                                 {activeTagFilter && <span className="px-2 py-0.5 bg-white dark:bg-slate-800 rounded border shadow-sm flex items-center gap-1">Tag: #{activeTagFilter} <button onClick={() => setActiveTagFilter(null)}>✕</button></span>}
                                 {activeDateFilter && <span className="px-2 py-0.5 bg-white dark:bg-slate-800 rounded border shadow-sm flex items-center gap-1">Date: {activeDateFilter.toLocaleDateString()} <button onClick={() => setActiveDateFilter(null)}>✕</button></span>}
-                                {searchQuery && <span className="px-2 py-0.5 bg-white dark:bg-slate-800 rounded border shadow-sm flex items-center gap-1">Search: "{searchQuery}" <button onClick={() => setSearchQuery('')}>✕</button></span>}
+                                {searchQuery && <span className="px-2 py-0.5 bg-white dark:bg-slate-800 rounded border shadow-sm flex items-center gap-1">{searchByMeaning ? 'Similar to' : 'Search'}: "{searchQuery}" <button onClick={() => setSearchQuery('')}>✕</button></span>}
+                            </div>
+                            <div className="flex items-center gap-3">
+                                {canEdit && !activeSmartFolderId && !isQueryEmpty(currentQuery) && (
+                                    <button onClick={handleSaveSmartFolder} className="text-primary-600 hover:text-primary-800 font-bold" title="Keep these filters as a folder in the sidebar">☆ Save as Smart Folder</button>
+                                )}
+                                <button onClick={clearFilters} className="text-primary-600 hover:text-primary-800 font-bold underline">Clear All</button>
                             </div>
-                            <button onClick={clearFilters} className="text-primary-600 hover:text-primary-800 font-bold underline">Clear All</button>
                         </div>
                     )}
 
@@ -532,6 +984,9 @@ const App: React.FC = () => {
                                                 onRemoveTag={handleRemoveTag} 
                                                 onMoveToFolder={handleMoveNote} 
                                                 onToggleComplete={handleToggleProjectCompletion}
+                                                isPendingSync={pendingNoteIds.has(note.id)}
+                                                onOpenNoteLink={handleOpenNoteLink}
+                                                highlight={highlightPattern}
                                             />
                                         ))}
                                     </div>
@@ -561,8 +1016,13 @@ const App: React.FC = () => {
                 onFolderClick={setActiveFolderId} 
                 onCreateFolder={handleCreateFolder} 
                 onDateClick={(d) => setActiveDateFilter(d)}
-                onDeleteFolder={handleDeleteFolder} 
-                onReorderFolders={() => {}} 
+                onDeleteFolder={(id) => canEdit && setDeletingFolderId(id)} 
+                onReorderFolders={handleReorderFolders} 
+                smartFolders={smartFolders}
+                smartFolderCounts={smartFolderCounts}
+                activeSmartFolderId={activeSmartFolderId}
+                onApplySmartFolder={handleApplySmartFolder}
+                onDeleteSmartFolder={canEdit ? handleDeleteSmartFolder : undefined}
                 onMoveNote={handleMoveNote} 
                 activeFolderId={activeFolderId}
                 activeDate={activeDateFilter}
@@ -578,8 +1038,18 @@ const App: React.FC = () => {
         <footer className="bg-white dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700 py-3 px-6 text-xs text-slate-400 flex justify-between items-center shadow-[0_-1px_3px_rgba(0,0,0,0.05)]">
             <div className="flex items-center gap-4">
                 <div className="flex items-center gap-2">
-                    <div className={`w-2 h-2 rounded-full ${storageOwner ? 'bg-green-500 animate-pulse' : 'bg-slate-400'}`}></div>
-                    {storageOwner ? <span className="text-slate-600 dark:text-slate-300 font-bold">Cloud Sync Active</span> : <span className="text-slate-500">Guest Mode (Local Only)</span>}
+                    <div className={`w-2 h-2 rounded-full ${!storageOwner ? 'bg-slate-400' : pendingSyncCount > 0 || !syncStatus.isOnline ? 'bg-amber-500 animate-pulse' : 'bg-green-500 animate-pulse'}`}></div>
+                    {!storageOwner ? (
+                        <span className="text-slate-500">Guest Mode (Local Only)</span>
+                    ) : pendingSyncCount > 0 ? (
+                        <span className="text-amber-600 dark:text-amber-400 font-bold" title={syncStatus.lastError || undefined}>
+                            {syncStatus.isOnline ? 'Syncing' : 'Offline'} · {pendingSyncCount} pending
+                        </span>
+                    ) : !syncStatus.isOnline ? (
+                        <span className="text-amber-600 dark:text-amber-400 font-bold">Offline (Local Cache)</span>
+                    ) : (
+                        <span className="text-slate-600 dark:text-slate-300 font-bold">Cloud Sync Active</span>
+                    )}
                 </div>
                 <button 
                   onClick={() => setShowTrash(true)}
@@ -598,7 +1068,7 @@ const App: React.FC = () => {
             <div className="font-medium">Daily AI Usage: {dailyUsage}/800</div>
         </footer>
 
-        <EditNoteModal note={editingNote} isOpen={!!editingNote} onClose={() => setEditingNote(null)} onSave={handleUpdateNote} currentUser={currentUser?.username || 'Guest'} />
+        <EditNoteModal note={editingNote} isOpen={!!editingNote} onClose={() => setEditingNote(null)} onSave={handleUpdateNote} currentUser={currentUser?.username || 'Guest'} notes={activeNotes} />
         <NoteDetailModal 
             note={expandedNote} 
             isOpen={!!expandedNote} 
@@ -609,15 +1079,45 @@ const App: React.FC = () => {
             onSaveExpanded={(id, content) => handleUpdateNote(id, expandedNote?.title || '', content)} 
             onToggleComplete={handleToggleProjectCompletion}
             onUpdateProjectData={handleUpdateProjectData}
+            onLoadRevisions={(noteId) => loadNoteRevisions(noteId, storageOwner)}
+            onRestoreRevision={handleRestoreRevision}
+            notes={activeNotes}
+            onOpenNote={handleExpandNote}
         />
         <TrashModal 
           isOpen={showTrash} 
           onClose={() => setShowTrash(false)} 
           trashedNotes={trashedNotes}
+          retentionDays={retentionDays}
           onRestore={handleRestoreNote}
           onPermanentlyDelete={handlePermanentDelete}
           onEmptyTrash={handleEmptyTrash}
         />
+        <DeleteFolderModal
+          folder={folders.find(f => f.id === deletingFolderId) || null}
+          folders={folders}
+          notes={notes}
+          onConfirm={handleDeleteFolder}
+          onCancel={() => setDeletingFolderId(null)}
+        />
+        {folderUndo && (
+          <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[200] px-6 py-3 rounded-2xl shadow-2xl font-black text-xs uppercase tracking-widest animate-[badgePop_0.3s_ease-out] border bg-slate-800 text-white border-slate-600 flex items-center gap-4">
+            <span>🗂️ {folderUndo.message}</span>
+            <button onClick={handleUndoFolderDeletion} className="text-primary-300 hover:text-primary-200 underline">Undo</button>
+          </div>
+        )}
+        <ConflictMergeModal conflict={conflicts[0] || null} onResolve={handleResolveConflict} onKeepRemote={handleKeepRemote} />
+        {currentUser && (
+          <GuestMigrationModal
+            guest={guestData}
+            existing={{ notes, folders }}
+            userId={currentUser.uid}
+            username={currentUser.username}
+            onDone={() => { setGuestData(null); handleReloadData(); }}
+            onLater={() => setGuestData(null)}
+          />
+        )}
+        <VaultUnlockModal isOpen={vaultState === 'locked' && !stayLocked} onUnlocked={handleReloadData} onStayLocked={() => setStayLocked(true)} />
         <ImageViewerModal src={viewingImage} isOpen={!!viewingImage} onClose={() => setViewingImage(null)} />
         <SettingsPanel 
             isOpen={showSettings} 
@@ -633,9 +1133,14 @@ const App: React.FC = () => {
             toggleEnableImages={() => setEnableImages(!enableImages)} 
             showLinkPreviews={showLinkPreviews} 
             toggleShowLinkPreviews={() => setShowLinkPreviews(!showLinkPreviews)} 
-            notes={activeNotes}
+            notes={notes}
+            folders={folders}
+            onDataImported={handleReloadData}
+            onRetentionChanged={handleRetentionChanged}
         />
         <AnalyticsModal isOpen={showAnalytics} onClose={() => setShowAnalytics(false)} notes={activeNotes} />
+        <AskNotesPanel isOpen={showChat} onClose={() => setShowChat(false)} currentUser={currentUser} notes={activeNotes} searchIndex={searchIndex} onOpenNote={handleExpandNote} />
+        <CommandPalette isOpen={showPalette} commands={paletteCommands} onClose={() => setShowPalette(false)} />
     </div>
   );
 };
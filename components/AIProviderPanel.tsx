@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Note, User } from '../types';
+import { AIProviderId } from '../config';
+import { AISettings, ConnectivityResult, loadAISettings, saveAISettings, createAIProvider } from '../services/aiProviders';
+import { getEmbeddingProviderId, rebuildEmbeddings } from '../services/embeddingService';
+
+interface AIProviderPanelProps {
+  currentUser: User | null;
+  notes: Note[];
+}
+
+const PROVIDER_OPTIONS: { id: AIProviderId; label: string; hint: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', hint: 'Uses the Gemini API key this build was deployed with. Note text is sent to Google.' },
+  { id: 'openai', label: 'OpenAI-compatible server', hint: 'Any server with the OpenAI chat and embeddings API, e.g. a local Ollama or llama.cpp server. Note text only goes to that server.' },
+  { id: 'mock', label: 'Mock (offline)', hint: 'Deterministic canned responses with no network calls. For demos and development.' }
+];
+
+const AIProviderPanel: React.FC<AIProviderPanelProps> = ({ currentUser, notes }) => {
+  const [settings, setSettings] = useState<AISettings>(loadAISettings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [result, setResult] = useState<ConnectivityResult | null>(null);
+  const [message, setMessage] = useState('');
+
+  const update = (change: Partial<AISettings>) => {
+    setSettings(prev => ({ ...prev, ...change }));
+    setMessage('');
+    setResult(null);
+  };
+
+  const updateOpenAI = (field: keyof AISettings['openai'], value: string) =>
+    update({ openai: { ...settings.openai, [field]: value } });
+
+  const handleSave = () => {
+    const before = createAIProvider(loadAISettings());
+    const after = createAIProvider(settings);
+    saveAISettings(settings);
+    setMessage('Saved.');
+    // Vectors from another embedding model are not comparable
+    const embeddingsChanged = before.id !== after.id || before.embeddingModel !== after.embeddingModel;
+    if (embeddingsChanged && getEmbeddingProviderId() === 'ai') {
+      rebuildEmbeddings(notes.filter(n => !n.isDeleted), currentUser?.uid || null);
+    }
+  };
+
+  // Tests the settings as entered, before they are saved
+  const handleTest = async () => {
+    setIsTesting(true);
+    setResult(null);
+    try {
+      setResult(await createAIProvider(settings).test());
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const inputClass = 'w-full p-2 bg-black/20 border border-slate-700 rounded-xl text-xs text-slate-200 outline-none focus:border-primary-500';
+
+  return (
+    <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-4 animate-[fadeIn_0.2s_ease-out]">
+      <div>
+        <h4 className="font-black text-white uppercase tracking-tight">AI Provider</h4>
+        <p className="text-xs text-slate-500">Which model organizes notes, expands them, answers questions and, when chosen under Semantic Search, embeds them. Saved for this browser.</p>
+      </div>
+
+      <div className="space-y-2">
+        {PROVIDER_OPTIONS.map(option => (
+          <label key={option.id} className={`block p-3 rounded-xl border cursor-pointer transition-all ${settings.provider === option.id ? 'border-primary-500 bg-primary-600/10' : 'border-slate-700 hover:border-slate-500'}`}>
+            <div className="flex items-center gap-2">
+              <input type="radio" name="ai-provider" checked={settings.provider === option.id} onChange={() => update({ provider: option.id })} />
+              <span className="text-sm font-bold text-slate-200">{option.label}</span>
+            </div>
+            <p className="text-[10px] text-slate-500 ml-5">{option.hint}</p>
+          </label>
+        ))}
+      </div>
+
+      {settings.provider === 'openai' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pt-2">
+          <label className="md:col-span-2 space-y-1">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Server URL</span>
+            <input value={settings.openai.baseUrl} onChange={(e) => updateOpenAI('baseUrl', e.target.value)} placeholder="http://localhost:11434/v1" className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Chat model</span>
+            <input value={settings.openai.model} onChange={(e) => updateOpenAI('model', e.target.value)} placeholder="llama3.1" className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Embedding model</span>
+            <input value={settings.openai.embeddingModel} onChange={(e) => updateOpenAI('embeddingModel', e.target.value)} placeholder="nomic-embed-text" className={inputClass} />
+          </label>
+          <label className="md:col-span-2 space-y-1">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">API key (optional)</span>
+            <input type="password" value={settings.openai.apiKey || ''} onChange={(e) => updateOpenAI('apiKey', e.target.value)} autoComplete="off" className={inputClass} />
+            <span className="block text-[10px] text-slate-500">Stored in this browser's local storage. Local servers usually need none.</span>
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 pt-2">
+        <button onClick={handleSave} className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl text-xs font-black uppercase tracking-widest transition-all">Save</button>
+        <button onClick={handleTest} disabled={isTesting} className="px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest border border-slate-700 text-slate-400 hover:border-primary-400 hover:text-white disabled:opacity-40 transition-all">
+          {isTesting ? 'Testing…' : 'Test connection'}
+        </button>
+        {message && <span className="text-[10px] font-bold text-emerald-400">{message}</span>}
+      </div>
+
+      {result && (
+        <p className={`text-[10px] font-bold ${result.success ? 'text-emerald-400' : 'text-rose-400'}`}>
+          {result.message}{result.steps ? ` (${result.steps.join(' · ')})` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AIProviderPanel;
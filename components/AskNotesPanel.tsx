@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Note, User, ChatMessage, ChatSource } from '../types';
+import { SearchIndex } from '../services/searchService';
+import { answerFromNotes } from '../services/geminiService';
+import { isVaultEnabled } from '../services/cryptoService';
+import { retrieveSources, linkCitations, sourceFromCiteHref } from '../services/chatService';
+
+interface AskNotesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUser: User | null;
+  notes: Note[];
+  searchIndex: SearchIndex;
+  onOpenNote: (note: Note) => void;
+}
+
+const AskNotesPanel: React.FC<AskNotesPanelProps> = ({ isOpen, onClose, currentUser, notes, searchIndex, onOpenNote }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) requestAnimationFrame(() => inputRef.current?.focus());
+  }, [isOpen]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages]);
+
+  if (!isOpen) return null;
+
+  const unavailable = !currentUser ? 'Sign in to ask questions about your notes.'
+    : isVaultEnabled() ? 'Unavailable while end-to-end encryption is on: answering would send your notes to the AI.'
+    : null;
+
+  const updateMessage = (id: string, update: Partial<ChatMessage>) =>
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...update } : m));
+
+  const openSource = (source: ChatSource) => {
+    const note = notes.find(n => n.id === source.noteId);
+    if (note) onOpenNote(note);
+    else alert(`"${source.title}" is no longer available.`);
+  };
+
+  const handleAsk = async () => {
+    const question = input.trim();
+    if (!question || isAnswering || !currentUser || unavailable) return;
+    const history = messages;
+    const answerId = crypto.randomUUID();
+    setMessages([
+      ...history,
+      { id: crypto.randomUUID(), role: 'user', text: question, timestamp: Date.now() },
+      { id: answerId, role: 'assistant', text: '', timestamp: Date.now() }
+    ]);
+    setInput('');
+    setIsAnswering(true);
+    try {
+      const sources = await retrieveSources(question, notes, searchIndex, currentUser.uid);
+      updateMessage(answerId, { sources });
+      await answerFromNotes(question, sources, history, currentUser.username, currentUser.uid, text => updateMessage(answerId, { text }));
+    } catch (e: any) {
+      updateMessage(answerId, { error: e.message || 'Could not answer that question.' });
+    } finally {
+      setIsAnswering(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleAsk();
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const renderAnswer = (message: ChatMessage) => {
+    const sources = message.sources || [];
+    const components = {
+      a: (props: any) => {
+        const source = sourceFromCiteHref(props.href, sources);
+        if (!source) return <a href={props.href} target="_blank" rel="noopener noreferrer" className="text-primary-600 underline">{props.children}</a>;
+        return (
+          <button type="button" onClick={() => openSource(source)} title={source.title} className="align-super text-[10px] font-black text-primary-600 dark:text-primary-400 hover:underline px-0.5">
+            [{source.index}]
+          </button>
+        );
+      }
+    };
+    return (
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {linkCitations(message.text, sources)}
+      </ReactMarkdown>
+    );
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[55] w-full max-w-md bg-white dark:bg-slate-800 border-l border-slate-200 dark:border-slate-700 shadow-2xl flex flex-col animate-[fadeIn_0.2s_ease-out]">
+      <div className="p-4 border-b border-slate-100 dark:border-slate-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-black text-slate-800 dark:text-white uppercase tracking-tight">💬 Ask your notes</h2>
+          <p className="text-[10px] text-slate-400">Answers come from your notes only, with numbered citations.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {messages.length > 0 && !isAnswering && (
+            <button onClick={() => setMessages([])} className="text-[10px] font-bold uppercase text-slate-400 hover:text-primary-600">Clear</button>
+          )}
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full text-slate-400">✕</button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {messages.length === 0 && (
+          <p className="text-sm text-slate-400 text-center mt-10">{unavailable || 'Ask anything, e.g. "What did we decide about the deploy pipeline?"'}</p>
+        )}
+        {messages.map((message, i) => message.role === 'user' ? (
+          <div key={message.id} className="ml-10 px-4 py-2 rounded-2xl rounded-br-sm bg-primary-600 text-white text-sm whitespace-pre-wrap">{message.text}</div>
+        ) : (
+          <div key={message.id} className="mr-6 space-y-2">
+            <div className="px-4 py-3 rounded-2xl rounded-bl-sm bg-slate-100 dark:bg-slate-700/60 text-sm text-slate-700 dark:text-slate-200 prose prose-sm dark:prose-invert max-w-none">
+              {message.error ? (
+                <span className="text-rose-500">{message.error}</span>
+              ) : message.text ? (
+                renderAnswer(message)
+              ) : (
+                <span className="text-slate-400 animate-pulse">{message.sources ? 'Writing…' : 'Searching your notes…'}</span>
+              )}
+              {isAnswering && i === messages.length - 1 && message.text && <span className="inline-block w-1.5 h-4 bg-primary-500 animate-pulse align-middle ml-0.5" />}
+            </div>
+            {message.sources && message.sources.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {message.sources.map(source => (
+                  <button key={source.index} onClick={() => openSource(source)} className="px-2 py-0.5 rounded-lg border border-slate-200 dark:border-slate-600 text-[10px] text-slate-500 dark:text-slate-300 hover:border-primary-400 hover:text-primary-600 truncate max-w-[180px]">
+                    [{source.index}] {source.title}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-slate-100 dark:border-slate-700">
+        <div className="flex items-end gap-2">
+          <textarea
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={2}
+            disabled={!!unavailable}
+            placeholder={unavailable ? '' : 'Ask a question… (Enter to send, Shift+Enter for a new line)'}
+            className="flex-1 resize-none p-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 text-sm dark:text-white outline-none focus:border-primary-400 disabled:opacity-50"
+          />
+          <button onClick={handleAsk} disabled={!input.trim() || isAnswering || !!unavailable} className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-slate-400 text-white rounded-xl text-sm font-bold transition-all">
+            Ask
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AskNotesPanel;
@@ -0,0 +1,262 @@
+import React, { useRef, useState } from 'react';
+import { Note, Folder } from '../types';
+import { ParsedBackup, ImportMode, parseBackup, previewBackup } from '../services/backupService';
+import { exportDataToFile, downloadAllNotesAsZip, importBackup, ImportSummary, syncAllNotes, SyncProgress, SyncSummary } from '../services/storageService';
+
+interface BackupRestorePanelProps {
+  notes: Note[];
+  folders: Folder[];
+  userId: string | null;
+  canEdit: boolean;
+  onImported?: () => void;
+}
+
+const MODE_OPTIONS: { id: ImportMode; label: string; hint: string }[] = [
+  { id: 'merge', label: 'Merge', hint: 'Add everything; backup copies overwrite notes with the same id.' },
+  { id: 'skip', label: 'Skip Duplicates', hint: 'Only add notes and folders whose id is not already in your vault.' },
+  { id: 'replace', label: 'Replace', hint: 'Delete anything not in the backup, then restore it exactly.' }
+];
+
+const BackupRestorePanel: React.FC<BackupRestorePanelProps> = ({ notes, folders, userId, canEdit, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [parseError, setParseError] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [importError, setImportError] = useState('');
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [syncSummary, setSyncSummary] = useState<SyncSummary | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [vaultOptions, setVaultOptions] = useState({ includeAttachments: true, includeTrash: false });
+  const [isExportingVault, setIsExportingVault] = useState(false);
+
+  const preview = backup ? previewBackup(backup, notes, folders) : null;
+  const isImporting = progress !== null && summary === null && !importError;
+
+  const reset = () => {
+    setBackup(null);
+    setFileName('');
+    setParseError('');
+    setProgress(null);
+    setSummary(null);
+    setImportError('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setFileName(file.name);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (err: any) {
+      setParseError(err.message || 'Could not read this file.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !confirm(`Replace your vault? ${notes.length} current notes not in the backup will be permanently deleted.`)) return;
+    setImportError('');
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await importBackup(backup, { notes, folders }, mode, userId, (done, total) => setProgress({ done, total }));
+      setSummary(result);
+      onImported?.();
+    } catch (err: any) {
+      setImportError(err.message || 'Import failed.');
+    }
+  };
+
+  const handleVaultExport = async () => {
+    setIsExportingVault(true);
+    try {
+      await downloadAllNotesAsZip(notes, folders, vaultOptions);
+    } finally {
+      setIsExportingVault(false);
+    }
+  };
+
+  const handleSync = async (onlyFailed: boolean) => {
+    if (!userId) return;
+    const failedIds = new Set(syncSummary?.failedNoteIds || []);
+    const targets = onlyFailed ? notes.filter(n => failedIds.has(n.id)) : notes;
+    setIsSyncing(true);
+    setSyncSummary(null);
+    setSyncProgress(null);
+    try {
+      setSyncSummary(await syncAllNotes(targets, userId, setSyncProgress));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-[fadeIn_0.2s_ease-out]">
+      {userId && (
+        <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h4 className="font-black text-white uppercase tracking-tight">Full Cloud Sync</h4>
+              <p className="text-xs text-slate-500">Re-upload all {notes.length} notes in batches. Failed batches are retried automatically.</p>
+            </div>
+            <button onClick={() => handleSync(false)} disabled={!canEdit || isSyncing || notes.length === 0} className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+              {isSyncing ? 'Syncing...' : 'Sync Vault'}
+            </button>
+          </div>
+
+          {syncProgress && (
+            <div className="space-y-1">
+              <div className="w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(((syncProgress.written + syncProgress.failed) / Math.max(1, syncProgress.total)) * 100)}%` }} />
+              </div>
+              <p className="text-[10px] text-slate-500 font-mono">Batch {syncProgress.chunk}/{syncProgress.chunks} · {syncProgress.written} / {syncProgress.total} notes written</p>
+            </div>
+          )}
+
+          {syncSummary && (
+            <div className="space-y-2">
+              <p className={`text-xs font-bold ${syncSummary.failedNoteIds.length > 0 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                Wrote {syncSummary.written} of {syncSummary.total} notes
+                {syncSummary.retries > 0 && ` after ${syncSummary.retries} retries`}
+                {syncSummary.failedNoteIds.length > 0 && `; ${syncSummary.failedNoteIds.length} could not be written`}.
+              </p>
+              {syncSummary.errors.map((err, i) => <p key={i} className="text-[10px] font-mono text-rose-300/80">{err}</p>)}
+              {syncSummary.failedNoteIds.length > 0 && (
+                <button onClick={() => handleSync(true)} disabled={isSyncing} className="px-5 py-2 border border-amber-500/50 text-amber-400 hover:bg-amber-500/10 rounded-xl text-xs font-black uppercase tracking-widest">Retry Failed</button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50">
+        <div>
+          <h4 className="font-black text-white uppercase tracking-tight">Export Backup</h4>
+          <p className="text-xs text-slate-500">Download every note and folder as a JSON file you can restore later.</p>
+        </div>
+        <button onClick={() => exportDataToFile(notes, folders)} className="px-6 py-2.5 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg">Download JSON</button>
+      </div>
+
+      <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-black text-white uppercase tracking-tight">Markdown Vault</h4>
+            <p className="text-xs text-slate-500">Obsidian-compatible ZIP: one file per note with frontmatter, folders as directories.</p>
+          </div>
+          <button onClick={handleVaultExport} disabled={isExportingVault || notes.length === 0} className="px-6 py-2.5 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+            {isExportingVault ? 'Packing...' : 'Download ZIP'}
+          </button>
+        </div>
+        <div className="flex gap-6">
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={vaultOptions.includeAttachments} onChange={(e) => setVaultOptions(prev => ({ ...prev, includeAttachments: e.target.checked }))} className="accent-primary-500" />
+            Include attachments
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input type="checkbox" checked={vaultOptions.includeTrash} onChange={(e) => setVaultOptions(prev => ({ ...prev, includeTrash: e.target.checked }))} className="accent-primary-500" />
+            Include trashed notes (in <span className="font-mono">.trash/</span>)
+          </label>
+        </div>
+      </div>
+
+      <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-5">
+        <div>
+          <h4 className="font-black text-white uppercase tracking-tight">Restore From Backup</h4>
+          <p className="text-xs text-slate-500">Select a <span className="font-mono">WeaveNote_Backup.json</span> file. Nothing is written until you confirm.</p>
+        </div>
+
+        {!canEdit && <p className="text-xs font-bold text-amber-400">Your account is read-only, so backups cannot be restored.</p>}
+
+        <div className="flex items-center gap-3">
+          <button onClick={() => fileInputRef.current?.click()} disabled={!canEdit || isImporting} className="px-5 py-2 border border-slate-600 text-slate-300 hover:border-primary-400 rounded-xl text-xs font-black uppercase tracking-widest disabled:opacity-40">Choose File</button>
+          <span className="text-xs text-slate-400 font-mono truncate">{fileName || 'No file selected'}</span>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </div>
+
+        {parseError && <p className="text-xs font-bold text-rose-400">{parseError}</p>}
+
+        {preview && backup && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="p-4 bg-black/20 rounded-xl border border-slate-700/50">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Notes</p>
+                <p className="text-2xl font-black text-white">{preview.notes}</p>
+                {preview.trashed > 0 && <p className="text-[10px] text-slate-500">{preview.trashed} in trash</p>}
+              </div>
+              <div className="p-4 bg-black/20 rounded-xl border border-slate-700/50">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Folders</p>
+                <p className="text-2xl font-black text-white">{preview.folders}</p>
+              </div>
+              <div className="p-4 bg-black/20 rounded-xl border border-slate-700/50">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Already In Vault</p>
+                <p className="text-2xl font-black text-amber-400">{preview.duplicateNotes + preview.duplicateFolders}</p>
+              </div>
+              <div className="p-4 bg-black/20 rounded-xl border border-slate-700/50">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Rejected</p>
+                <p className={`text-2xl font-black ${preview.invalid > 0 ? 'text-rose-400' : 'text-white'}`}>{preview.invalid}</p>
+              </div>
+            </div>
+
+            {backup.errors.length > 0 && (
+              <details className="text-[10px] text-rose-300/80 font-mono bg-black/20 rounded-xl border border-slate-800 p-3">
+                <summary className="cursor-pointer font-bold uppercase tracking-widest">Show rejected records</summary>
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                  {backup.errors.map((err, i) => <li key={i}>{err}</li>)}
+                </ul>
+              </details>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {MODE_OPTIONS.map(opt => (
+                <button
+                  key={opt.id}
+                  onClick={() => setMode(opt.id)}
+                  disabled={isImporting}
+                  className={`p-4 rounded-xl border text-left transition-all ${mode === opt.id ? (opt.id === 'replace' ? 'border-rose-500 bg-rose-500/10' : 'border-primary-500 bg-primary-500/10') : 'border-slate-700 hover:border-slate-500'}`}
+                >
+                  <p className="text-xs font-black text-white uppercase tracking-widest">{opt.label}</p>
+                  <p className="text-[10px] text-slate-400 mt-1 leading-relaxed">{opt.hint}</p>
+                </button>
+              ))}
+            </div>
+
+            {progress && progress.total > 0 && (
+              <div className="space-y-1">
+                <div className="w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary-500 transition-all" style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }} />
+                </div>
+                <p className="text-[10px] text-slate-500 font-mono">{progress.done} / {progress.total} records written</p>
+              </div>
+            )}
+
+            {summary && (
+              <p className="text-xs font-bold text-emerald-400">
+                Restored {summary.notesWritten} notes and {summary.foldersWritten} folders
+                {summary.skipped > 0 && `, skipped ${summary.skipped} duplicates`}
+                {summary.removed > 0 && `, removed ${summary.removed} items not in the backup`}.
+              </p>
+            )}
+            {importError && <p className="text-xs font-bold text-rose-400">{importError}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button onClick={reset} disabled={isImporting} className="px-5 py-2 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-slate-300 disabled:opacity-40">Clear</button>
+              <button
+                onClick={handleImport}
+                disabled={!canEdit || isImporting || !!summary || (preview.notes + preview.folders === 0)}
+                className={`px-8 py-2.5 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40 ${mode === 'replace' ? 'bg-rose-600 hover:bg-rose-500' : 'bg-primary-600 hover:bg-primary-500'}`}
+              >
+                {isImporting ? 'Importing...' : 'Start Import'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestorePanel;
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, rankCommands, formatCombo } from '../services/commandService';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  commands: Command[];
+  onClose: () => void;
+}
+
+const GROUP_ICONS: Record<Command['group'], string> = { Actions: '⚡', Notes: '📝', Folders: '📁', Tags: '#' };
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => rankCommands(commands, query), [commands, query]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  }, [isOpen]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const run = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!results.length) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(i => (i + step + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-start justify-center pt-[15vh] p-4 bg-black/60 backdrop-blur-sm animate-[fadeIn_0.1s_ease-out]" onMouseDown={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden border border-slate-200 dark:border-slate-700" onMouseDown={(e) => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search notes, folders, tags and actions…"
+          className="w-full px-5 py-4 text-base bg-transparent outline-none border-b border-slate-100 dark:border-slate-700 dark:text-white"
+        />
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto custom-scrollbar py-1">
+          {results.length === 0 && <p className="px-5 py-6 text-sm text-center text-slate-400">No matches</p>}
+          {results.map((command, i) => (
+            <button
+              key={command.id}
+              data-index={i}
+              onClick={() => run(command)}
+              onMouseMove={() => setActiveIndex(i)}
+              className={`w-full flex items-center gap-3 px-5 py-2 text-left transition-colors ${i === activeIndex ? 'bg-primary-50 dark:bg-primary-900/30' : ''}`}
+            >
+              <span className="w-5 text-center text-sm text-slate-400 shrink-0">{GROUP_ICONS[command.group]}</span>
+              <span className="flex-1 min-w-0">
+                <span className={`block text-sm truncate ${i === activeIndex ? 'text-primary-700 dark:text-primary-300 font-bold' : 'text-slate-700 dark:text-slate-200'}`}>{command.label}</span>
+                {command.hint && <span className="block text-[10px] text-slate-400 truncate">{command.hint}</span>}
+              </span>
+              {command.shortcut && <kbd className="px-1.5 py-0.5 rounded border border-slate-200 dark:border-slate-600 text-[10px] font-mono text-slate-400 shrink-0">{formatCombo(command.shortcut)}</kbd>}
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-300 dark:text-slate-500 shrink-0">{command.group}</span>
+            </button>
+          ))}
+        </div>
+        <div className="px-5 py-2 border-t border-slate-100 dark:border-slate-700 text-[10px] text-slate-400 flex gap-4">
+          <span>↑↓ navigate</span><span>↵ run</span><span>esc close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
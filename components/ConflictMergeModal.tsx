@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Note } from '../types';
+import { NoteConflict, MergeField, MERGE_FIELDS, mergeNotes, takeField } from '../services/conflictService';
+
+interface ConflictMergeModalProps {
+  conflict: NoteConflict | null;
+  onResolve: (merged: Note, remote: Note) => void;
+  onKeepRemote: (remote: Note) => void;
+}
+
+type Side = 'local' | 'remote';
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  content: 'Content',
+  tags: 'Tags',
+  projectData: 'Project Data'
+};
+
+const renderValue = (field: MergeField, note: Note | undefined) => {
+  if (!note) return '—';
+  if (field === 'tags') return (note.tags || []).map(t => `#${t}`).join(' ') || '—';
+  if (field === 'projectData') return note.projectData ? JSON.stringify(note.projectData, null, 2) : '—';
+  return (note[field] as string) || '—';
+};
+
+const ConflictMergeModal: React.FC<ConflictMergeModalProps> = ({ conflict, onResolve, onKeepRemote }) => {
+  const result = useMemo(() => conflict ? mergeNotes(conflict) : null, [conflict]);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, Side>>>({});
+  const [mergedContent, setMergedContent] = useState('');
+
+  useEffect(() => {
+    if (!result) return;
+    setChoices(Object.fromEntries(result.conflicts.map(f => [f, 'local'])) as Partial<Record<MergeField, Side>>);
+    setMergedContent(result.merged.content);
+  }, [result]);
+
+  if (!conflict || !result) return null;
+
+  const { local, remote, base } = conflict;
+  const autoMerged = MERGE_FIELDS.filter(f => !result.conflicts.includes(f) && JSON.stringify(local[f] ?? null) !== JSON.stringify(remote[f] ?? null));
+
+  const pick = (field: MergeField, side: Side) => {
+    setChoices(prev => ({ ...prev, [field]: side }));
+    if (field === 'content') setMergedContent(side === 'local' ? local.content : remote.content);
+  };
+
+  const handleSave = () => {
+    const merged: Note = { ...result.merged };
+    result.conflicts.forEach(field => {
+      takeField(merged, choices[field] === 'remote' ? remote : local, field);
+    });
+    if (result.conflicts.includes('content')) merged.content = mergedContent;
+    onResolve(merged, remote);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-6xl max-h-[92vh] overflow-hidden flex flex-col">
+        <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-amber-50 dark:bg-amber-900/20">
+          <h2 className="text-xl font-black text-slate-800 dark:text-white flex items-center gap-2 uppercase tracking-tight">
+            <span className="p-1.5 bg-amber-500 text-white rounded-lg shadow-sm">⚠️</span> Edit Conflict
+          </h2>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            "{remote.title}" was changed on another device while you were editing it.
+            {autoMerged.length > 0 && <> Auto-merged: <strong>{autoMerged.map(f => FIELD_LABELS[f]).join(', ')}</strong>.</>}
+            {!base && <> No common base version was available, so every differing field needs a decision.</>}
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar flex-grow space-y-6">
+          {result.conflicts.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-10">All changes merged cleanly. Save to apply them.</p>
+          )}
+          {result.conflicts.map(field => (
+            <div key={field} className="space-y-3">
+              <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">{FIELD_LABELS[field]}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="p-3 rounded-xl border border-dashed border-slate-200 dark:border-slate-700 text-xs text-slate-400 whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar">
+                  <p className="text-[9px] font-black uppercase mb-2">Base</p>
+                  {renderValue(field, base)}
+                </div>
+                {(['local', 'remote'] as Side[]).map(side => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => pick(field, side)}
+                    className={`p-3 rounded-xl border text-left text-xs whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar transition-all ${choices[field] === side ? 'border-primary-500 ring-2 ring-primary-500/30 bg-primary-50 dark:bg-primary-900/20 text-slate-800 dark:text-white' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-primary-300'}`}
+                  >
+                    <p className="text-[9px] font-black uppercase mb-2">{side === 'local' ? 'Mine (this device)' : 'Theirs (other device)'}</p>
+                    {renderValue(field, side === 'local' ? local : remote)}
+                  </button>
+                ))}
+              </div>
+              {field === 'content' && (
+                <textarea
+                  value={mergedContent}
+                  onChange={(e) => setMergedContent(e.target.value)}
+                  className="w-full h-40 p-4 border border-slate-200 dark:border-slate-700 rounded-xl text-sm dark:bg-slate-900 dark:text-slate-200 outline-none focus:ring-2 focus:ring-primary-500/20 resize-y"
+                  placeholder="Edit the merged content..."
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-3">
+          <button onClick={() => onKeepRemote(remote)} className="px-6 py-2 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-slate-700 dark:hover:text-slate-200">Discard Mine</button>
+          <button onClick={handleSave} className="px-8 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg">Save Merge</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictMergeModal;
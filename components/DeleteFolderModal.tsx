@@ -0,0 +1,102 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Note, Folder } from '../types';
+import { FolderNoteAction } from '../services/storageService';
+import { buildFolderTree, flattenFolderTree, getDescendantIds } from '../services/folderService';
+
+interface DeleteFolderModalProps {
+  folder: Folder | null;
+  folders: Folder[];
+  notes: Note[];
+  onConfirm: (folderId: string, action: FolderNoteAction, includeSubfolders: boolean) => void;
+  onCancel: () => void;
+}
+
+type ActionKind = FolderNoteAction['kind'];
+
+const ACTION_OPTIONS: { id: ActionKind; label: string; hint: string }[] = [
+  { id: 'move', label: 'Move notes to…', hint: 'Keep the notes and file them in another folder.' },
+  { id: 'unfile', label: 'Unfile notes', hint: 'Keep the notes without a folder.' },
+  { id: 'trash', label: 'Trash notes', hint: 'Move the notes to the trash. They can be restored from there.' }
+];
+
+const DeleteFolderModal: React.FC<DeleteFolderModalProps> = ({ folder, folders, notes, onConfirm, onCancel }) => {
+  const [kind, setKind] = useState<ActionKind>('unfile');
+  const [targetId, setTargetId] = useState('');
+  const [includeSubfolders, setIncludeSubfolders] = useState(false);
+
+  useEffect(() => {
+    setKind('unfile');
+    setTargetId('');
+    setIncludeSubfolders(false);
+  }, [folder?.id]);
+
+  const deletedIds = useMemo(
+    () => folder ? (includeSubfolders ? getDescendantIds(folder.id, folders) : new Set([folder.id])) : new Set<string>(),
+    [folder, folders, includeSubfolders]
+  );
+  const targets = useMemo(() => flattenFolderTree(buildFolderTree(folders)).filter(n => !deletedIds.has(n.folder.id)), [folders, deletedIds]);
+
+  if (!folder) return null;
+
+  const subfolderCount = folders.filter(f => f.parentId === folder.id).length;
+  const noteCount = notes.filter(n => !n.isDeleted && n.folderId && deletedIds.has(n.folderId)).length;
+  const canConfirm = kind !== 'move' || targets.some(n => n.folder.id === targetId);
+
+  const handleConfirm = () => {
+    const action: FolderNoteAction = kind === 'move' ? { kind, targetId } : { kind };
+    onConfirm(folder.id, action, includeSubfolders);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-rose-50 dark:bg-rose-900/20">
+          <h2 className="text-xl font-black text-slate-800 dark:text-white flex items-center gap-2 uppercase tracking-tight">
+            <span className="p-1.5 bg-rose-500 text-white rounded-lg shadow-sm">🗂️</span> Delete Folder
+          </h2>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            "{folder.name}" contains {noteCount} {noteCount === 1 ? 'note' : 'notes'}{includeSubfolders && subfolderCount > 0 && ' including its subfolders'}. What should happen to them?
+          </p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {ACTION_OPTIONS.map(option => (
+            <label key={option.id} className={`block p-3 rounded-xl border cursor-pointer transition-all ${kind === option.id ? 'border-primary-500 ring-2 ring-primary-500/30 bg-primary-50 dark:bg-primary-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-primary-300'}`}>
+              <div className="flex items-center gap-2">
+                <input type="radio" name="folder-action" checked={kind === option.id} onChange={() => setKind(option.id)} />
+                <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{option.label}</span>
+              </div>
+              <p className="text-[10px] text-slate-400 ml-5">{option.hint}</p>
+              {option.id === 'move' && kind === 'move' && (
+                <select
+                  value={targetId}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className="mt-2 w-full p-2 border border-slate-200 dark:border-slate-700 rounded-lg text-sm dark:bg-slate-900 dark:text-slate-200 outline-none"
+                >
+                  <option value="">Choose a folder…</option>
+                  {targets.map(({ folder: f, depth }) => (
+                    <option key={f.id} value={f.id}>{`${'  '.repeat(depth)}${f.name}`}</option>
+                  ))}
+                </select>
+              )}
+            </label>
+          ))}
+
+          {subfolderCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400 pt-2">
+              <input type="checkbox" checked={includeSubfolders} onChange={(e) => setIncludeSubfolders(e.target.checked)} />
+              Also delete its {subfolderCount} {subfolderCount === 1 ? 'subfolder' : 'subfolders'} (otherwise they move up a level)
+            </label>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-6 py-2 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-slate-700 dark:hover:text-slate-200">Cancel</button>
+          <button onClick={handleConfirm} disabled={!canConfirm} className="px-8 py-2 bg-rose-600 hover:bg-rose-700 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">Delete Folder</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteFolderModal;
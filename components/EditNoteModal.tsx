@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Note } from '../types';
-import { processNoteWithAI } from '../services/geminiService';
+import { Note, ProcessedNoteData } from '../types';
+import { streamProcessNoteWithAI } from '../services/geminiService';
+import { isVaultEnabled } from '../services/cryptoService';
+import LinkAutocomplete from './LinkAutocomplete';
 
 interface EditNoteModalProps {
   note: Note | null;
@@ -8,9 +10,10 @@ interface EditNoteModalProps {
   onClose: () => void;
   onSave: (id: string, title: string, content: string, category?: string, tags?: string[]) => void;
   currentUser: string;
+  notes?: Note[]; // Link targets for [[...]] autocomplete
 }
 
-const EditNoteModal: React.FC<EditNoteModalProps> = ({ note, isOpen, onClose, onSave, currentUser }) => {
+const EditNoteModal: React.FC<EditNoteModalProps> = ({ note, isOpen, onClose, onSave, currentUser, notes = [] }) => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [manualTags, setManualTags] = useState<string[]>([]);
@@ -18,9 +21,12 @@ const EditNoteModal: React.FC<EditNoteModalProps> = ({ note, isOpen, onClose, on
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [aiResult, setAiResult] = useState<{category: string, tags: string[]} | null>(null);
+  const [originalDraft, setOriginalDraft] = useState<{title: string, content: string} | null>(null); // Kept after a stopped organize
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const organizeAbortRef = useRef<AbortController | null>(null);
   const isGuest = currentUser === 'Guest';
+  const aiLocked = isVaultEnabled();
 
   useEffect(() => {
     if (note) {
@@ -29,9 +35,13 @@ const EditNoteModal: React.FC<EditNoteModalProps> = ({ note, isOpen, onClose, on
       setManualTags(note.tags);
       setAiResult(null);
       setError(null);
+      setOriginalDraft(null);
     }
   }, [note]);
 
+  // Closing or switching notes stops a running organize
+  useEffect(() => () => organizeAbortRef.current?.abort(), [isOpen, note]);
+
   if (!isOpen || !note) return null;
 
   const extractHashtags = (text: string): string[] => {
@@ -40,23 +50,47 @@ const EditNoteModal: React.FC<EditNoteModalProps> = ({ note, isOpen, onClose, on
   };
 
   const handleAIOrganize = async () => {
-      if (isGuest) return;
+      if (isGuest || aiLocked || isProcessing) return;
+      const original = { title, content };
+      const controller = new AbortController();
+      organizeAbortRef.current = controller;
       setIsProcessing(true);
       setError(null);
+      setOriginalDraft(null);
       try {
-          const processed = await processNoteWithAI(content, [], note.type, currentUser);
-          setTitle(processed.title);
-          setContent(processed.formattedContent);
-          setAiResult({ category: processed.category, tags: processed.tags });
-          const currentTextTags = [...extractHashtags(processed.formattedContent), ...extractHashtags(processed.title)];
-          setManualTags(prev => Array.from(new Set([...prev, ...processed.tags, ...currentTextTags])));
+          // Title and content fill in as the response streams; the final item is the complete note
+          let processed: Partial<ProcessedNoteData> = {};
+          for await (processed of streamProcessNoteWithAI(original.content, [], note.type, currentUser, undefined, controller.signal)) {
+              if (processed.title) setTitle(processed.title);
+              if (processed.formattedContent) setContent(processed.formattedContent);
+          }
+          if (controller.signal.aborted) {
+              setOriginalDraft(original);
+              return;
+          }
+          const tags = processed.tags || [];
+          setAiResult({ category: processed.category || '', tags });
+          const currentTextTags = [...extractHashtags(processed.formattedContent || ''), ...extractHashtags(processed.title || '')];
+          setManualTags(prev => Array.from(new Set([...prev, ...tags, ...currentTextTags])));
       } catch (err: any) {
+          setTitle(original.title);
+          setContent(original.content);
           setError(err.message || "AI Organization failed.");
       } finally {
+          organizeAbortRef.current = null;
           setIsProcessing(false);
       }
   };
 
+  const stopAIOrganize = () => organizeAbortRef.current?.abort();
+
+  const restoreOriginal = () => {
+      if (!originalDraft) return;
+      setTitle(originalDraft.title);
+      setContent(originalDraft.content);
+      setOriginalDraft(null);
+  };
+
   const addTag = (tag: string) => {
     const clean = tag.trim().toLowerCase().replace('#', '');
     if (clean && !manualTags.includes(clean)) {
@@ -150,26 +184,39 @@ const EditNoteModal: React.FC<EditNoteModalProps> = ({ note, isOpen, onClose, on
                     ))}
                 </div>
             </div>
-            <textarea
-              ref={textareaRef}
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              className="w-full flex-grow px-8 py-8 border border-slate-200 dark:border-slate-700 rounded-2xl font-sans text-base dark:bg-slate-900 dark:text-slate-200 resize-none focus:ring-4 focus:ring-indigo-500/5 outline-none transition-all leading-relaxed shadow-inner"
-              placeholder="Start weaving your thoughts..."
-              required
-            />
+            <div className="relative flex-grow flex flex-col">
+              <textarea
+                ref={textareaRef}
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                readOnly={isProcessing}
+                className="w-full flex-grow px-8 py-8 border border-slate-200 dark:border-slate-700 rounded-2xl font-sans text-base dark:bg-slate-900 dark:text-slate-200 resize-none focus:ring-4 focus:ring-indigo-500/5 outline-none transition-all leading-relaxed shadow-inner"
+                placeholder="Start weaving your thoughts... Type [[ to link another note."
+                required
+              />
+              <LinkAutocomplete textareaRef={textareaRef} value={content} notes={notes} excludeId={note.id} onChange={setContent} />
+            </div>
           </div>
           
           <div className="flex justify-between items-center pt-8 mt-8 border-t border-slate-100 dark:border-slate-700">
-            <button 
-              type="button" 
-              onClick={handleAIOrganize} 
-              disabled={isProcessing || isGuest} 
-              className={`px-8 py-3 font-black uppercase tracking-widest text-xs rounded-xl shadow-lg transition-all transform hover:-translate-y-1 ${isGuest ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:shadow-indigo-500/20'}`}
-              title={isGuest ? "Login required for AI features" : "AI Organize"}
-            >
-              {isProcessing ? '⌛ Organizing...' : isGuest ? '✨ Login for AI' : '✨ Neural Optimize'}
-            </button>
+            <div className="flex items-center gap-4">
+              <button 
+                type="button" 
+                onClick={isProcessing ? stopAIOrganize : handleAIOrganize} 
+                disabled={isGuest || aiLocked} 
+                className={`px-8 py-3 font-black uppercase tracking-widest text-xs rounded-xl shadow-lg transition-all transform hover:-translate-y-1 ${isGuest || aiLocked ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : isProcessing ? 'bg-rose-600 text-white hover:bg-rose-700' : 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white hover:shadow-indigo-500/20'}`}
+                title={isGuest ? "Login required for AI features" : aiLocked ? "AI is disabled while end-to-end encryption is on" : isProcessing ? "Stop and keep what has been written so far" : "AI Organize"}
+              >
+                {isProcessing ? '■ Stop' : isGuest ? '✨ Login for AI' : aiLocked ? '🔒 AI Off' : '✨ Neural Optimize'}
+              </button>
+              {error && <span className="text-xs font-bold text-rose-500">{error}</span>}
+              {originalDraft && (
+                <span className="text-xs text-slate-400">
+                  Stopped; partial result kept.{' '}
+                  <button type="button" onClick={restoreOriginal} className="font-bold text-indigo-500 hover:underline">Restore original</button>
+                </span>
+              )}
+            </div>
             <div className="flex gap-4">
                 <button type="button" onClick={onClose} className="px-8 py-3 font-black uppercase tracking-widest text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors">Discard</button>
                 <button type="submit" className="px-12 py-3 bg-slate-900 dark:bg-indigo-600 text-white font-black uppercase tracking-widest text-xs rounded-xl shadow-xl hover:brightness-110 transition-all transform hover:-translate-y-1">Commit Changes</button>
@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { Note, Folder } from '../types';
+import { ImportReport, ImportMode } from '../services/backupService';
+import { parseVaultZip } from '../services/vaultService';
+import { parseEnexFile, parseKeepTakeout } from '../services/externalImportService';
+import { importBackup, ImportSummary } from '../services/storageService';
+
+interface ExternalImportPanelProps {
+  notes: Note[];
+  folders: Folder[];
+  userId: string | null;
+  canEdit: boolean;
+  onImported?: () => void;
+}
+
+interface ImportSource {
+  id: string;
+  label: string;
+  accept: string;
+  hint: string;
+  parse: (file: File, existing: { notes: Note[]; folders: Folder[] }) => Promise<ImportReport>;
+}
+
+const SOURCES: ImportSource[] = [
+  { id: 'markdown', label: 'Markdown / Obsidian', accept: '.zip,application/zip', hint: 'A ZIP of .md files. Directories become folders; frontmatter sets tags, category and type.', parse: parseVaultZip },
+  { id: 'enex', label: 'Evernote', accept: '.enex', hint: 'An .enex export. Tags, dates, checklists and small attachments are kept.', parse: parseEnexFile },
+  { id: 'keep', label: 'Google Keep', accept: '.zip,.json,application/zip,application/json', hint: 'The Keep Takeout ZIP (or one of its .json notes). Colors, labels, checklists and pins are kept; pinned notes get a #pinned tag.', parse: parseKeepTakeout }
+];
+
+const ExternalImportPanel: React.FC<ExternalImportPanelProps> = ({ notes, folders, userId, canEdit, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sourceId, setSourceId] = useState(SOURCES[0].id);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<ImportMode>('skip');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const source = SOURCES.find(s => s.id === sourceId) || SOURCES[0];
+  const isImporting = progress !== null && summary === null && !error;
+
+  const reset = () => {
+    setReport(null);
+    setError('');
+    setProgress(null);
+    setSummary(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+    setIsParsing(true);
+    try {
+      setReport(await source.parse(file, { notes, folders }));
+    } catch (err: any) {
+      setError(err.message || 'Could not read this file.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!report) return;
+    setError('');
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await importBackup(report.backup, { notes, folders }, mode, userId, (done, total) => setProgress({ done, total }));
+      setSummary(result);
+      onImported?.();
+    } catch (err: any) {
+      setError(err.message || 'Import failed.');
+    }
+  };
+
+  return (
+    <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-5 animate-[fadeIn_0.2s_ease-out]">
+      <div>
+        <h4 className="font-black text-white uppercase tracking-tight">Import From Other Apps</h4>
+        <p className="text-xs text-slate-500">{source.hint} You will see a dry-run report before anything is written.</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {SOURCES.map(s => (
+          <button
+            key={s.id}
+            onClick={() => { setSourceId(s.id); reset(); }}
+            disabled={isImporting}
+            className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${sourceId === s.id ? 'border-primary-500 bg-primary-500/10 text-white' : 'border-slate-700 text-slate-500 hover:border-slate-500'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button onClick={() => fileInputRef.current?.click()} disabled={!canEdit || isParsing || isImporting} className="px-5 py-2 border border-slate-600 text-slate-300 hover:border-primary-400 rounded-xl text-xs font-black uppercase tracking-widest disabled:opacity-40">
+          {isParsing ? 'Analyzing...' : 'Choose File'}
+        </button>
+        <input ref={fileInputRef} type="file" accept={source.accept} className="hidden" onChange={handleFile} />
+      </div>
+
+      {error && <p className="text-xs font-bold text-rose-400">{error}</p>}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {report.stats.map(stat => (
+              <div key={stat.label} className="p-4 bg-black/20 rounded-xl border border-slate-700/50">
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{stat.label}</p>
+                <p className="text-2xl font-black text-white">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {(report.warnings.length > 0 || report.backup.errors.length > 0) && (
+            <details className="text-[10px] font-mono bg-black/20 rounded-xl border border-slate-800 p-3">
+              <summary className="cursor-pointer font-bold uppercase tracking-widest text-amber-300/80">
+                {report.warnings.length} warnings, {report.backup.errors.length} files rejected
+              </summary>
+              <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                {report.warnings.map((w, i) => <li key={`w${i}`} className="text-amber-300/80">{w}</li>)}
+                {report.backup.errors.map((err, i) => <li key={`e${i}`} className="text-rose-300/80">{err}</li>)}
+              </ul>
+            </details>
+          )}
+
+          <div className="flex gap-3">
+            {(['skip', 'merge'] as ImportMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                disabled={isImporting}
+                className={`px-4 py-2 rounded-xl border text-xs font-black uppercase tracking-widest transition-all ${mode === m ? 'border-primary-500 bg-primary-500/10 text-white' : 'border-slate-700 text-slate-500 hover:border-slate-500'}`}
+              >
+                {m === 'skip' ? 'Skip Duplicates' : 'Overwrite Duplicates'}
+              </button>
+            ))}
+          </div>
+
+          {progress && progress.total > 0 && (
+            <div className="w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-primary-500 transition-all" style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }} />
+            </div>
+          )}
+
+          {summary && (
+            <p className="text-xs font-bold text-emerald-400">
+              Imported {summary.notesWritten} notes and {summary.foldersWritten} folders{summary.skipped > 0 && `, skipped ${summary.skipped} duplicates`}.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button onClick={reset} disabled={isImporting} className="px-5 py-2 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-slate-300 disabled:opacity-40">Clear</button>
+            <button
+              onClick={handleImport}
+              disabled={!canEdit || isImporting || !!summary || report.backup.notes.length === 0}
+              className="px-8 py-2.5 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40"
+            >
+              {isImporting ? 'Importing...' : `Import ${report.backup.notes.length} Notes`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExternalImportPanel;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Note, Folder } from '../types';
+import { GuestData, GuestMigrationSummary, migrateGuestData, discardGuestData } from '../services/storageService';
+
+interface GuestMigrationModalProps {
+  guest: GuestData | null;
+  existing: { notes: Note[]; folders: Folder[] };
+  userId: string;
+  username: string;
+  onDone: () => void;
+  onLater: () => void;
+}
+
+const GuestMigrationModal: React.FC<GuestMigrationModalProps> = ({ guest, existing, userId, username, onDone, onLater }) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<GuestMigrationSummary | null>(null);
+  const [error, setError] = useState('');
+
+  if (!guest) return null;
+
+  const isMoving = progress !== null && summary === null && !error;
+  const activeCount = guest.notes.filter(n => !n.isDeleted).length;
+
+  const handleMove = async () => {
+    setError('');
+    setProgress({ done: 0, total: 0 });
+    try {
+      setSummary(await migrateGuestData(guest, existing, userId, username, (done, total) => setProgress({ done, total })));
+    } catch (err: any) {
+      setError(err.message || 'Could not move your guest notes.');
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirm(`Discard ${guest.notes.length} guest notes? They cannot be recovered.`)) return;
+    await discardGuestData(guest);
+    onDone();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-primary-50 dark:bg-primary-900/20">
+          <h2 className="text-xl font-black text-slate-800 dark:text-white flex items-center gap-2 uppercase tracking-tight">
+            <span className="p-1.5 bg-primary-600 text-white rounded-lg shadow-sm">📦</span> Guest Notes Found
+          </h2>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            You wrote {activeCount} notes{guest.folders.length > 0 && ` in ${guest.folders.length} folders`} before signing in. Move them into your account so they are not lost when this tab closes.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {progress && progress.total > 0 && (
+            <div className="w-full h-2 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+              <div className="h-full bg-primary-500 transition-all" style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }} />
+            </div>
+          )}
+          {summary && (
+            <p className="text-xs font-bold text-emerald-500">
+              Moved {summary.notesMoved} notes and {summary.foldersMoved} folders{summary.reassignedIds > 0 && ` (${summary.reassignedIds} given new ids to avoid clashing with your account)`}.
+            </p>
+          )}
+          {error && <p className="text-xs font-bold text-rose-500">{error}</p>}
+          {!summary && <p className="text-[10px] text-slate-400">Notes whose id already exists in your account are copied under a new id; nothing in your account is overwritten.</p>}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-3">
+          {summary ? (
+            <button onClick={onDone} className="px-8 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg">Done</button>
+          ) : (
+            <>
+              <button onClick={handleDiscard} disabled={isMoving} className="px-4 py-2 text-xs font-black uppercase tracking-widest text-rose-500 hover:text-rose-600 disabled:opacity-40">Discard</button>
+              <button onClick={onLater} disabled={isMoving} className="px-4 py-2 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-40">Later</button>
+              <button onClick={handleMove} disabled={isMoving} className="px-8 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+                {isMoving ? 'Moving...' : 'Move to Account'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GuestMigrationModal;
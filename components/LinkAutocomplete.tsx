@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Note } from '../types';
+import { getLinkQuery, suggestLinkTargets, completeLink } from '../services/linkService';
+
+interface LinkAutocompleteProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  value: string;
+  notes: Note[];
+  excludeId?: string; // The note being edited, which should not link to itself
+  onChange: (value: string) => void;
+}
+
+// Suggests note titles while the caret is inside an unfinished `[[...`. Render it inside a `relative` wrapper around the textarea.
+const LinkAutocomplete: React.FC<LinkAutocompleteProps> = ({ textareaRef, value, notes, excludeId, onChange }) => {
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+
+  const linkQuery = caret === null ? null : getLinkQuery(value, caret);
+  const suggestions = useMemo(
+    () => linkQuery && linkQuery.start !== dismissedAt ? suggestLinkTargets(linkQuery.query, notes, excludeId) : [],
+    [linkQuery?.query, linkQuery?.start, dismissedAt, notes, excludeId]
+  );
+  const isOpen = suggestions.length > 0;
+
+  useEffect(() => setActiveIndex(0), [linkQuery?.query]);
+
+  const select = (title: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !linkQuery || caret === null) return;
+    const next = completeLink(value, caret, linkQuery.start, title);
+    onChange(next.text);
+    setCaret(next.caret);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const trackCaret = () => setCaret(textarea.selectionStart === textarea.selectionEnd ? textarea.selectionStart : null);
+    const handleBlur = () => setCaret(null);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isOpen) return;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(i => (i + step + suggestions.length) % suggestions.length);
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        select(suggestions[activeIndex].title);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        setDismissedAt(linkQuery?.start ?? null);
+      }
+    };
+    textarea.addEventListener('input', trackCaret);
+    textarea.addEventListener('keyup', trackCaret);
+    textarea.addEventListener('click', trackCaret);
+    textarea.addEventListener('blur', handleBlur);
+    textarea.addEventListener('keydown', handleKeyDown);
+    return () => {
+      textarea.removeEventListener('input', trackCaret);
+      textarea.removeEventListener('keyup', trackCaret);
+      textarea.removeEventListener('click', trackCaret);
+      textarea.removeEventListener('blur', handleBlur);
+      textarea.removeEventListener('keydown', handleKeyDown);
+    };
+  });
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute left-4 bottom-4 z-20 w-72 max-w-[calc(100%-2rem)] bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-2xl overflow-hidden animate-[fadeIn_0.1s_ease-out]">
+      <div className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-100 dark:border-slate-700">Link to note</div>
+      {suggestions.map((note, i) => (
+        <button
+          key={note.id}
+          type="button"
+          // Keep focus in the textarea so the caret position survives the click
+          onMouseDown={(e) => { e.preventDefault(); select(note.title); }}
+          onMouseEnter={() => setActiveIndex(i)}
+          className={`w-full text-left px-3 py-2 text-sm truncate transition-colors ${i === activeIndex ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300' : 'text-slate-700 dark:text-slate-200'}`}
+        >
+          {note.title}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LinkAutocomplete;
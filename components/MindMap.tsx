@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { Note } from '../types';
+import { extractLinkTitles, resolveNoteLink } from '../services/linkService';
 
 interface MindMapProps {
   notes: Note[];
@@ -23,7 +24,7 @@ interface GraphNode extends d3.SimulationNodeDatum {
 interface GraphLink extends d3.SimulationLinkDatum<GraphNode> {
   source: string | GraphNode;
   target: string | GraphNode;
-  connectionType: 'tag' | 'strong' | 'weak';
+  connectionType: 'note' | 'tag' | 'strong' | 'weak';
   weight: number;
 }
 
@@ -107,6 +108,14 @@ const MindMap: React.FC<MindMapProps> = ({ notes, onNoteClick }) => {
       });
     });
 
+    // B2. [[Links]] written in content (Explicit, always kept first)
+    notes.forEach(note => {
+      extractLinkTitles(note.content).forEach(title => {
+        const target = resolveNoteLink(title, notes);
+        if (target && target.id !== note.id) rawLinks.push({ source: note.id, target: target.id, connectionType: 'note', weight: 20 });
+      });
+    });
+
     // C. Similarity (Implicit connections)
     for (let i = 0; i < notes.length; i++) {
         const noteA = notes[i];
@@ -171,6 +180,7 @@ const MindMap: React.FC<MindMapProps> = ({ notes, onNoteClick }) => {
     svg.attr("viewBox", [0, 0, width, height]).attr("class", "w-full h-full cursor-move");
     const defs = svg.append("defs");
     defs.append("style").text(`
+      .link-note { stroke: #10b981; stroke-width: 2px; opacity: 0.7; }
       .link-tag { stroke: #cbd5e1; stroke-width: 1px; opacity: 0.2; }
       .link-strong { stroke: #6366f1; stroke-width: 2px; opacity: 0.4; }
       .link-weak { stroke: #94a3b8; stroke-width: 0.8px; opacity: 0.1; }
@@ -185,11 +195,13 @@ const MindMap: React.FC<MindMapProps> = ({ notes, onNoteClick }) => {
       .force("link", d3.forceLink<GraphNode, GraphLink>(links)
         .id(d => d.id)
         .distance(d => {
+            if (d.connectionType === 'note') return 60;
             if (d.connectionType === 'strong') return 70; // Closer
             if (d.connectionType === 'weak') return 180; // Closer
             return 100; // Closer
         })
         .strength(d => {
+            if (d.connectionType === 'note') return 0.6;
             if (d.connectionType === 'strong') return 0.5; // Tighter pull
             if (d.connectionType === 'tag') return 0.3;
             return 0.1;
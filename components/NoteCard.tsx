@@ -2,6 +2,9 @@ import React, { useMemo, useState, useRef } from 'react';
 import { Note, NOTE_COLORS, NoteColor, Folder } from '../types';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { getFolderPath } from '../services/folderService';
+import { linkifyNoteLinks, titleFromNoteHref } from '../services/linkService';
+import { rehypeHighlight, splitHighlights } from '../services/searchService';
 
 interface NoteCardProps {
   note: Note;
@@ -18,6 +21,9 @@ interface NoteCardProps {
   onRemoveTag: (noteId: string, tag: string) => void;
   onMoveToFolder?: (noteId: string, folderId: string | undefined) => void;
   onToggleComplete?: (id: string) => void;
+  isPendingSync?: boolean;
+  onOpenNoteLink?: (title: string) => void;
+  highlight?: RegExp | null; // Search matches to mark in the title and content
 }
 
 const getHashColor = (str: string) => {
@@ -27,7 +33,7 @@ const getHashColor = (str: string) => {
 
 const NoteCard: React.FC<NoteCardProps> = ({ 
   note, folders = [], onDelete, onTagClick, onEdit, onExpand, 
-  readOnly = false, onToggleCheckbox, onToggleComplete, onMoveToFolder 
+  readOnly = false, onToggleCheckbox, onToggleComplete, onMoveToFolder, isPendingSync = false, onOpenNoteLink, highlight = null 
 }) => {
   const checkboxCounter = useRef(0);
   checkboxCounter.current = 0;
@@ -35,7 +41,8 @@ const NoteCard: React.FC<NoteCardProps> = ({
 
   const folderName = useMemo(() => {
     if (!note.folderId || !folders) return null;
-    return folders.find(f => f.id === note.folderId)?.name;
+    const path = getFolderPath(note.folderId, folders);
+    return path.length > 0 ? path.map(f => f.name).join(' › ') : null;
   }, [note.folderId, folders]);
 
   const calculateProgress = useMemo(() => {
@@ -75,7 +82,21 @@ const NoteCard: React.FC<NoteCardProps> = ({
     }
   };
 
+  const linkedContent = useMemo(() => linkifyNoteLinks(note.content), [note.content]);
+  const rehypePlugins = useMemo(() => highlight ? [rehypeHighlight(highlight)] : [], [highlight]);
+  const highlightedTitle = splitHighlights(note.title, highlight).map((segment, i) =>
+    segment.match ? <mark key={i} className="search-hit">{segment.text}</mark> : <React.Fragment key={i}>{segment.text}</React.Fragment>);
+
   const markdownComponents = {
+      a: ({ node, href, children, ...props }: any) => {
+          const linkTitle = titleFromNoteHref(href);
+          if (linkTitle === null) return <a href={href} {...props}>{children}</a>;
+          return (
+            <button type="button" onClick={(e) => { e.stopPropagation(); onOpenNoteLink?.(linkTitle); }} className="text-primary-700 dark:text-primary-300 font-semibold underline decoration-dotted underline-offset-2 hover:decoration-solid">
+              {children}
+            </button>
+          );
+      },
       input: (props: any) => {
           if (props.type === 'checkbox') {
               const index = checkboxCounter.current++;
@@ -99,6 +120,12 @@ const NoteCard: React.FC<NoteCardProps> = ({
       }
   };
 
+  const pendingSyncBadge = (
+    <span className="text-[9px] uppercase font-black px-1.5 py-0.5 rounded-full bg-amber-500/90 text-white shadow-sm animate-pulse shrink-0" title="Saved on this device, waiting to sync">
+      ⏳ Pending sync
+    </span>
+  );
+
   const isFinished = note.projectData?.isCompleted === true || (note.projectData?.isCompleted === undefined && calculateProgress === 100);
   const isNotebook = note.type === 'notebook';
 
@@ -139,10 +166,11 @@ const NoteCard: React.FC<NoteCardProps> = ({
                 </div>
               )}
               <h3 className="text-xl font-bold text-slate-800 line-clamp-1 underline decoration-primary-200 underline-offset-8">
-                {note.title}
+                {highlightedTitle}
               </h3>
             </div>
-            <div className="flex gap-1 shrink-0">
+            <div className="flex gap-1 shrink-0 items-center">
+               {isPendingSync && pendingSyncBadge}
                <button onClick={(e) => { e.stopPropagation(); onEdit(note); }} className="p-1 hover:bg-slate-100 rounded text-slate-400">
                   <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"/><path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"/></svg>
                </button>
@@ -150,7 +178,7 @@ const NoteCard: React.FC<NoteCardProps> = ({
           </div>
 
           <div className="prose prose-sm max-w-none flex-grow text-slate-600 line-clamp-[10] overflow-hidden whitespace-pre-wrap leading-[28px]">
-             <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{note.content}</ReactMarkdown>
+             <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={rehypePlugins} components={markdownComponents}>{linkedContent}</ReactMarkdown>
           </div>
 
           <div className="mt-4 flex flex-wrap gap-1.5 pt-2">
@@ -179,8 +207,9 @@ const NoteCard: React.FC<NoteCardProps> = ({
                 {isFinished ? '✓ Finished' : note.type}
              </span>
              <span className="text-[10px] uppercase font-bold opacity-50 tracking-wider truncate">{note.category}</span>
+             {isPendingSync && pendingSyncBadge}
            </div>
-           <h3 className={`text-xl font-bold leading-tight line-clamp-2 ${isFinished ? 'opacity-60 line-through' : ''}`}>{note.title}</h3>
+           <h3 className={`text-xl font-bold leading-tight line-clamp-2 ${isFinished ? 'opacity-60 line-through' : ''}`}>{highlightedTitle}</h3>
         </div>
         
         {folderName && (
@@ -237,7 +266,7 @@ const NoteCard: React.FC<NoteCardProps> = ({
           </div>
       ) : (
           <div className={`prose prose-sm max-w-none flex-grow opacity-95 text-sm line-clamp-[10] overflow-hidden mb-4 mt-2 ${note.type === 'code' ? 'font-mono bg-white/40 dark:bg-black/10 p-3 rounded-lg border border-black/5 shadow-inner' : ''} whitespace-pre-wrap`}>
-             <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{note.content}</ReactMarkdown>
+             <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={rehypePlugins} components={markdownComponents}>{linkedContent}</ReactMarkdown>
           </div>
       )}
 
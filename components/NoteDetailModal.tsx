@@ -1,10 +1,15 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Note, NOTE_COLORS, WorkflowNode, WorkflowEdge, ProjectData, ProjectMilestone, ProjectPhase } from '../types';
-import { expandNoteContent } from '../services/geminiService';
+import { Note, NOTE_COLORS, WorkflowNode, WorkflowEdge, ProjectData, ProjectMilestone, ProjectPhase, NoteRevision } from '../types';
+import { streamExpandNoteContent } from '../services/geminiService';
+import { isVaultEnabled } from '../services/cryptoService';
 import GanttChart from './GanttChart';
 import WorkflowEditor from './WorkflowEditor';
+import RevisionHistoryPanel from './RevisionHistoryPanel';
+import { emptyProjectData } from '../services/migrationService';
+import { linkifyNoteLinks, titleFromNoteHref, resolveNoteLink, getBacklinks } from '../services/linkService';
+import { EMBEDDINGS_EVENT, getRelatedNotes } from '../services/embeddingService';
 
 interface NoteDetailModalProps {
   note: Note | null;
@@ -16,7 +21,11 @@ interface NoteDetailModalProps {
   onSaveExpanded?: (id: string, content: string) => void;
   onToggleComplete?: (id: string) => void;
   onUpdateProjectData?: (id: string, data: ProjectData) => void;
+  onLoadRevisions?: (noteId: string) => Promise<NoteRevision[]>;
+  onRestoreRevision?: (noteId: string, revision: NoteRevision) => void;
   currentUser: string;
+  notes?: Note[]; // Used to resolve [[links]] and list backlinks and related notes
+  onOpenNote?: (note: Note) => void;
 }
 
 const isImageUrl = (url: string) => {
@@ -35,9 +44,15 @@ const processContent = (text: string) => {
 
 const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ 
     note, isOpen, onClose, showLinkPreviews = false, onViewImage, 
-    onToggleCheckbox, onSaveExpanded, onToggleComplete, onUpdateProjectData, currentUser 
+    onToggleCheckbox, onSaveExpanded, onToggleComplete, onUpdateProjectData, onLoadRevisions, onRestoreRevision, currentUser, notes = [], onOpenNote 
 }) => {
   const [isExpanding, setIsExpanding] = useState(false);
+  const [streamedExpansion, setStreamedExpansion] = useState<string | null>(null); // Deep Dive text while it arrives
+  const expandAbortRef = useRef<AbortController | null>(null);
+  const expandStoppedRef = useRef(false); // Set only by the Stop button, which keeps the partial Deep Dive
+  const latestNoteRef = useRef(note);
+  latestNoteRef.current = note;
+  const [showHistory, setShowHistory] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState(600);
   
@@ -52,6 +67,7 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
   const checkboxCounter = useRef(0);
   checkboxCounter.current = 0;
   const isGuest = currentUser === 'Guest';
+  const aiLocked = isVaultEnabled();
 
   useEffect(() => {
     if (isOpen && containerRef.current) {
@@ -59,35 +75,58 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
     }
     // Reset edit states when note changes or modal opens
     if (note && note.projectData) {
-      setEditedObjectives(note.projectData.objectives || note.projectData.deliverables || []);
-      setEditedMilestones(note.projectData.milestones || []);
-      setEditedTimeline(note.projectData.timeline || []);
+      setEditedObjectives(note.projectData.objectives);
+      setEditedMilestones(note.projectData.milestones);
+      setEditedTimeline(note.projectData.timeline);
       setEditedProgress(note.projectData.manualProgress || 0);
       setEditedIsCompleted(note.projectData.isCompleted || false);
     }
     setEditSection(null);
   }, [isOpen, note]);
 
+  useEffect(() => {
+    setShowHistory(false);
+    // Closing or switching notes cancels a running Deep Dive without saving it
+    return () => expandAbortRef.current?.abort();
+  }, [isOpen, note?.id]);
+
   const handleDeepDive = async () => {
-    if (!note || !onSaveExpanded || isGuest) return;
+    if (!note || !onSaveExpanded || isGuest || aiLocked || isExpanding) return;
+    const controller = new AbortController();
+    expandAbortRef.current = controller;
+    expandStoppedRef.current = false;
     setIsExpanding(true);
+    setStreamedExpansion('');
+    let expansion = '';
     try {
-        const expansion = await expandNoteContent(note.content, currentUser);
-        if (expansion) {
-            const newContent = note.content + "\n\n" + expansion;
+        for await (expansion of streamExpandNoteContent(note.content, currentUser, undefined, controller.signal)) {
+            setStreamedExpansion(expansion);
+        }
+        const current = latestNoteRef.current;
+        const cancelled = controller.signal.aborted && !expandStoppedRef.current;
+        // Append to the note as it is now, so edits made while streaming are kept
+        if (expansion.trim() && !cancelled && current?.id === note.id) {
+            const newContent = current.content + "\n\n" + expansion;
             onSaveExpanded(note.id, newContent);
         }
     } catch (e) {
         alert("Deep dive failed.");
     } finally {
+        expandAbortRef.current = null;
         setIsExpanding(false);
+        setStreamedExpansion(null);
     }
   };
 
+  const stopDeepDive = () => {
+    expandStoppedRef.current = true;
+    expandAbortRef.current?.abort();
+  };
+
   const saveProjectChanges = () => {
     if (!note || !onUpdateProjectData) return;
     const newData: ProjectData = {
-      ...(note.projectData || { deliverables: [], milestones: [], timeline: [], objectives: [] }),
+      ...(note.projectData || emptyProjectData()),
       objectives: editedObjectives,
       milestones: editedMilestones,
       timeline: editedTimeline,
@@ -116,12 +155,32 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
     return total === 0 ? 0 : Math.round((completed / total) * 100);
   }, [note]);
 
-  const processedContent = useMemo(() => note ? processContent(note.content) : "", [note]);
+  const processedContent = useMemo(() => note ? processContent(linkifyNoteLinks(note.content)) : "", [note]);
+  const backlinks = useMemo(() => note ? getBacklinks(note, notes) : [], [note, notes]);
+  // Recomputed when embeddings finish indexing, so a freshly saved note finds its neighbours
+  const [embeddingsVersion, setEmbeddingsVersion] = useState(0);
+  useEffect(() => {
+    const handleUpdate = () => setEmbeddingsVersion(v => v + 1);
+    window.addEventListener(EMBEDDINGS_EVENT, handleUpdate);
+    return () => window.removeEventListener(EMBEDDINGS_EVENT, handleUpdate);
+  }, []);
+  const related = useMemo(() => note ? getRelatedNotes(note, notes) : [], [note, notes, embeddingsVersion]);
   const colorClass = note ? NOTE_COLORS[note.color] : "";
 
   const markdownComponents = {
       a: (props: any) => {
           if (!props.href) return <a {...props} />;
+          const linkTitle = titleFromNoteHref(props.href);
+          if (linkTitle !== null) {
+              const target = resolveNoteLink(linkTitle, notes);
+              return target ? (
+                <button type="button" onClick={(e) => { e.stopPropagation(); onOpenNote?.(target); }} className="text-primary-700 dark:text-primary-300 font-semibold underline decoration-dotted underline-offset-4 hover:decoration-solid transition-colors">
+                    {props.children}
+                </button>
+              ) : (
+                <span className="text-slate-400 underline decoration-dashed underline-offset-4 cursor-help" title="No note with this title yet">{props.children}</span>
+              );
+          }
           if (isImageUrl(props.href)) {
               return (
                   <div onClick={(e) => e.stopPropagation()} className="my-4 block select-none group/img-link">
@@ -172,8 +231,8 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
   if (!isOpen || !note) return null;
   const isCompleted = note.projectData?.isCompleted;
 
-  // Ensure projectData exists for project notes
-  const projectData = note.projectData || { deliverables: [], milestones: [], timeline: [], objectives: [] };
+  // Project notes are migrated to a complete projectData on load; other types have none
+  const projectData = note.projectData || emptyProjectData();
 
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]" onClick={onClose}>
@@ -199,13 +258,22 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
                     {isCompleted ? '✓ Completed' : 'Mark as Done'}
                   </button>
                 )}
+                {onLoadRevisions && (
+                  <button 
+                    onClick={() => setShowHistory(!showHistory)} 
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold font-sans transition-all shadow-sm ${showHistory ? 'bg-slate-700 text-white' : 'bg-white/80 text-slate-700 hover:bg-white'}`}
+                    title="Revision history"
+                  >
+                    🕘 History
+                  </button>
+                )}
                 <button 
-                  onClick={handleDeepDive} 
-                  disabled={isExpanding || isGuest} 
-                  className={`px-3 py-1.5 rounded-full text-xs font-bold font-sans transition-all shadow-sm flex items-center gap-1 disabled:opacity-50 ${isGuest ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
-                  title={isGuest ? "Login required for AI features" : "Deep Dive"}
+                  onClick={isExpanding ? stopDeepDive : handleDeepDive} 
+                  disabled={isGuest || aiLocked} 
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold font-sans transition-all shadow-sm flex items-center gap-1 disabled:opacity-50 ${isGuest || aiLocked ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : isExpanding ? 'bg-rose-600 text-white hover:bg-rose-700' : 'bg-indigo-600 text-white hover:bg-indigo-700'}`}
+                  title={isGuest ? "Login required for AI features" : aiLocked ? "AI is disabled while end-to-end encryption is on" : isExpanding ? "Stop and keep what has been written so far" : "Deep Dive"}
                 >
-                  {isExpanding ? '✨ Diving...' : isGuest ? '✨ AI (Login)' : '✨ Deep Dive'}
+                  {isExpanding ? '■ Stop' : isGuest ? '✨ AI (Login)' : aiLocked ? '🔒 AI Off' : '✨ Deep Dive'}
                 </button>
                 <button onClick={onClose} className="p-2 rounded-full hover:bg-black/10 transition-colors">
                     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
@@ -286,6 +354,45 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
                 </ReactMarkdown>
             </div>
 
+            {streamedExpansion !== null && (
+              <div className="mt-6 p-5 rounded-2xl border border-indigo-300/40 bg-indigo-50/40 dark:bg-indigo-900/10">
+                <span className="text-xs font-black uppercase tracking-widest text-indigo-500 font-sans">✨ Deep Dive</span>
+                {streamedExpansion ? (
+                  <div className="prose max-w-none font-sans opacity-90 break-words mt-2">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{streamedExpansion}</ReactMarkdown>
+                  </div>
+                ) : (
+                  <p className="text-sm font-sans opacity-60 animate-pulse mt-2">Diving...</p>
+                )}
+              </div>
+            )}
+
+            {backlinks.length > 0 && (
+              <div className="mt-10 pt-6 border-t border-black/10 dark:border-white/10 font-sans">
+                <h4 className="text-xs font-black uppercase tracking-widest opacity-60 mb-3">🔗 Linked from {backlinks.length} {backlinks.length === 1 ? 'note' : 'notes'}</h4>
+                <div className="flex flex-wrap gap-2">
+                  {backlinks.map(source => (
+                    <button key={source.id} onClick={() => onOpenNote?.(source)} className="px-3 py-1.5 bg-white/60 dark:bg-black/30 hover:bg-white dark:hover:bg-black/50 border border-black/5 rounded-xl text-sm font-bold shadow-sm transition-colors">
+                      {source.title || 'Untitled'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {related.length > 0 && (
+              <div className={`${backlinks.length > 0 ? 'mt-6' : 'mt-10 pt-6 border-t border-black/10 dark:border-white/10'} font-sans`}>
+                <h4 className="text-xs font-black uppercase tracking-widest opacity-60 mb-3">≈ Related notes</h4>
+                <div className="flex flex-wrap gap-2">
+                  {related.map(({ note: other, score }) => (
+                    <button key={other.id} onClick={() => onOpenNote?.(other)} title={`${Math.round(score * 100)}% similar`} className="px-3 py-1.5 bg-white/40 dark:bg-black/20 hover:bg-white dark:hover:bg-black/50 border border-dashed border-black/10 dark:border-white/10 rounded-xl text-sm font-medium shadow-sm transition-colors">
+                      {other.title || 'Untitled'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* PROJECT DASHBOARD SECTION */}
             {note.type === 'project' && (
               <div className="mt-12 space-y-10 animate-[fadeIn_0.3s_ease-out] font-sans">
@@ -529,6 +636,16 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
                 ))}
             </div>
         </div>
+
+        {showHistory && onLoadRevisions && (
+          <RevisionHistoryPanel 
+            noteId={note.id} 
+            currentNote={note} 
+            onLoadRevisions={onLoadRevisions} 
+            onRestore={(revision) => onRestoreRevision?.(note.id, revision)} 
+            onClose={() => setShowHistory(false)} 
+          />
+        )}
       </div>
     </div>
   );
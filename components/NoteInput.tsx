@@ -1,7 +1,9 @@
 import React, { useState, useRef } from 'react';
-import { NoteType, ProjectMilestone } from '../types';
+import { Note, NoteType, ProjectMilestone } from '../types';
 import { parseDocument } from '../services/documentParser';
 import { cleanAndFormatIngestedText } from '../services/geminiService';
+import { isVaultEnabled } from '../services/cryptoService';
+import LinkAutocomplete from './LinkAutocomplete';
 
 interface NoteInputProps {
   onAddNote: (text: string, type: NoteType, attachments?: string[], forcedTags?: string[], useAI?: boolean, manualTitle?: string, extraProjectData?: { 
@@ -17,10 +19,11 @@ interface NoteInputProps {
   readOnly?: boolean;
   isGuest?: boolean;
   enableImages?: boolean;
+  notes?: Note[]; // Link targets for [[...]] autocomplete
 }
 
 const NoteInput: React.FC<NoteInputProps> = ({ 
-    onAddNote, onTypeChange, isProcessing, activeType, readOnly = false, isGuest = true 
+    onAddNote, onTypeChange, isProcessing, activeType, readOnly = false, isGuest = true, notes = [] 
 }) => {
   const [text, setText] = useState('');
   const [code, setCode] = useState('');
@@ -28,6 +31,7 @@ const NoteInput: React.FC<NoteInputProps> = ({
   const [isParsingDoc, setIsParsingDoc] = useState(false);
   const [ingestProgress, setIngestProgress] = useState({ current: 0, total: 0, percent: 0 });
   const [validationError, setValidationError] = useState<string | null>(null);
+  const aiLocked = isVaultEnabled();
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   
   const [projectProgress, setProjectProgress] = useState(0);
@@ -47,7 +51,7 @@ const NoteInput: React.FC<NoteInputProps> = ({
   };
 
   const handleAction = async (useAI: boolean) => {
-    if (useAI && isGuest) return; 
+    if (useAI && (isGuest || aiLocked)) return; 
 
     const error = validateInput();
     if (error) {
@@ -92,7 +96,7 @@ const NoteInput: React.FC<NoteInputProps> = ({
         
         const rawText = await parseDocument(file);
         
-        if (!isGuest) {
+        if (!isGuest && !aiLocked) {
           const cleaned = await cleanAndFormatIngestedText(rawText, file.name, "User"); 
           await onAddNote(cleaned.formattedContent, 'document', [], [], false, cleaned.title || file.name.split('.')[0]);
         } else {
@@ -143,7 +147,7 @@ const NoteInput: React.FC<NoteInputProps> = ({
   if (readOnly) return <div className="p-6 text-center border-dashed border rounded-xl text-slate-400">🔒 Read Only</div>;
 
   return (
-    <div className={`rounded-xl shadow-lg border p-1 mb-8 transition-all duration-300 ${getBackgroundColor()}`}>
+    <div id="note-input" className={`rounded-xl shadow-lg border p-1 mb-8 transition-all duration-300 ${getBackgroundColor()}`}>
         <div className="flex gap-1 p-1 mb-1 overflow-x-auto no-scrollbar">
             {(['quick', 'notebook', 'deep', 'code', 'project', 'contact', 'document'] as NoteType[]).map(type => (
                 <button 
@@ -250,7 +254,7 @@ const NoteInput: React.FC<NoteInputProps> = ({
         </div>
 
         <div className="flex flex-col md:flex-row">
-            <div className={`flex-1 ${activeType === 'code' ? 'md:border-r border-slate-100 dark:border-slate-700' : ''}`}>
+            <div className={`relative flex-1 ${activeType === 'code' ? 'md:border-r border-slate-100 dark:border-slate-700' : ''}`}>
                 <textarea 
                   ref={mainTextareaRef}
                   value={text} 
@@ -258,6 +262,7 @@ const NoteInput: React.FC<NoteInputProps> = ({
                   placeholder={activeType === 'document' ? "Upload documents or paste content to organize..." : (activeType === 'project' ? "Project description and notes..." : "Draft your entry here...")} 
                   className="w-full h-48 p-4 bg-transparent border-0 focus:ring-0 outline-none resize-none text-slate-700 dark:text-slate-200 text-sm whitespace-pre-wrap font-sans" 
                 />
+                <LinkAutocomplete textareaRef={mainTextareaRef} value={text} notes={notes} onChange={setText} />
             </div>
             {activeType === 'code' && (
                 <div className="flex-1 bg-slate-950 dark:bg-black/40">
@@ -282,11 +287,11 @@ const NoteInput: React.FC<NoteInputProps> = ({
                 <button 
                   type="button" 
                   onClick={() => handleAction(true)} 
-                  disabled={isDisabled || isProcessing || isGuest || isParsingDoc} 
-                  className={`px-4 py-1.5 rounded-full font-bold text-sm transition-all transform hover:-translate-y-0.5 shadow-md hover:shadow-lg ${isGuest ? 'bg-slate-200 text-slate-400 cursor-not-allowed opacity-60' : 'bg-gradient-to-r from-primary-600 to-indigo-600 text-white'}`}
-                  title={isGuest ? "Login required for AI features" : "AI Organize"}
+                  disabled={isDisabled || isProcessing || isGuest || aiLocked || isParsingDoc} 
+                  className={`px-4 py-1.5 rounded-full font-bold text-sm transition-all transform hover:-translate-y-0.5 shadow-md hover:shadow-lg ${isGuest || aiLocked ? 'bg-slate-200 text-slate-400 cursor-not-allowed opacity-60' : 'bg-gradient-to-r from-primary-600 to-indigo-600 text-white'}`}
+                  title={isGuest ? "Login required for AI features" : aiLocked ? "AI is disabled while end-to-end encryption is on" : "AI Organize"}
                 >
-                  {isProcessing ? '✨ Organizing...' : isGuest ? '✨ AI (Login)' : '✨ AI Organize'}
+                  {isProcessing ? '✨ Organizing...' : isGuest ? '✨ AI (Login)' : aiLocked ? '🔒 AI Off' : '✨ AI Organize'}
                 </button>
             </div>
         </div>
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Note, NoteRevision } from '../types';
+import { diffLines } from '../services/revisionService';
+
+interface RevisionHistoryPanelProps {
+  noteId: string;
+  currentNote: Pick<Note, 'title' | 'content' | 'revision'>;
+  onLoadRevisions: (noteId: string) => Promise<NoteRevision[]>;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}
+
+const DIFF_STYLES = {
+  same: 'text-slate-500 dark:text-slate-400',
+  added: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300',
+  removed: 'bg-red-100 text-red-800 line-through dark:bg-red-900/30 dark:text-red-300'
+};
+
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({ noteId, currentNote, onLoadRevisions, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    onLoadRevisions(noteId)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelectedId(list[0]?.id || null);
+      })
+      .catch(() => { if (!cancelled) setRevisions([]); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [noteId, currentNote.revision]);
+
+  // Metadata saves (opening, moving, tagging) also bump the revision number, so match on what the revision holds
+  const currentId = useMemo(
+    () => revisions.find(r => r.title === currentNote.title && r.content === currentNote.content)?.id,
+    [revisions, currentNote.title, currentNote.content]
+  );
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    const render = (r?: NoteRevision) => r ? `# ${r.title}\n\n${r.content}` : '';
+    return diffLines(render(previous), render(selected));
+  }, [selected, previous]);
+
+  return (
+    <div className="absolute inset-0 z-10 flex flex-col bg-white dark:bg-slate-900 font-sans animate-[fadeIn_0.2s_ease-out]">
+      <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-800">
+        <h3 className="text-sm font-black uppercase tracking-widest text-slate-700 dark:text-slate-200 flex items-center gap-2">🕘 Revision History</h3>
+        <button onClick={onClose} className="px-4 py-1.5 rounded-full text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">Back to Note</button>
+      </div>
+
+      <div className="flex flex-grow overflow-hidden">
+        <div className="w-56 shrink-0 border-r border-slate-100 dark:border-slate-800 overflow-y-auto custom-scrollbar">
+          {isLoading && <p className="p-4 text-xs text-slate-400">Loading history...</p>}
+          {!isLoading && revisions.length === 0 && <p className="p-4 text-xs text-slate-400">No revisions recorded yet. Edits from now on will appear here.</p>}
+          {revisions.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setSelectedId(r.id)}
+              className={`w-full text-left px-4 py-3 border-b border-slate-50 dark:border-slate-800 transition-colors ${r.id === selectedId ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-black text-slate-700 dark:text-slate-200">v{r.revision}</span>
+                {r.id === currentId && <span className="text-[9px] font-black uppercase text-emerald-600">Current</span>}
+              </div>
+              <p className="text-[10px] text-slate-400 mt-0.5">{new Date(r.createdAt).toLocaleString()}</p>
+              <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate mt-1">{r.title}</p>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-grow flex flex-col overflow-hidden">
+          {selected && (
+            <>
+              <div className="flex justify-between items-center px-5 py-3 border-b border-slate-100 dark:border-slate-800">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  {previous ? `Changes from v${previous.revision} to v${selected.revision}` : `Initial version (v${selected.revision})`}
+                </span>
+                <button
+                  onClick={() => onRestore(selected)}
+                  disabled={selected.id === currentId}
+                  className="px-4 py-1.5 rounded-lg text-xs font-black uppercase tracking-widest bg-primary-600 hover:bg-primary-700 text-white shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Restore
+                </button>
+              </div>
+              <pre className="flex-grow overflow-auto custom-scrollbar p-5 text-xs font-mono leading-relaxed">
+                {diff.map((line, i) => (
+                  <div key={i} className={`px-2 whitespace-pre-wrap ${DIFF_STYLES[line.type]}`}>
+                    <span className="select-none opacity-50 mr-2">{DIFF_MARKERS[line.type]}</span>{line.text || ' '}
+                  </div>
+                ))}
+              </pre>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistoryPanel;
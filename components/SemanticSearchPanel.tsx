@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Note, User } from '../types';
+import { isVaultEnabled } from '../services/cryptoService';
+import { getAIProvider } from '../services/aiProviders';
+import {
+  EmbeddingProviderId, EmbeddingStatus, EMBEDDINGS_EVENT, EMBEDDING_PROVIDERS,
+  getEmbeddingProviderId, getEmbeddingStatus, setEmbeddingProvider, rebuildEmbeddings
+} from '../services/embeddingService';
+
+interface SemanticSearchPanelProps {
+  currentUser: User | null;
+  notes: Note[];
+}
+
+const LOCAL_HINT = 'Runs a small model in this browser. About 50 MB is downloaded once; note text stays on this device.';
+
+const SemanticSearchPanel: React.FC<SemanticSearchPanelProps> = ({ currentUser, notes }) => {
+  const [provider, setProvider] = useState<EmbeddingProviderId | null>(getEmbeddingProviderId);
+  const [status, setStatus] = useState<EmbeddingStatus>(getEmbeddingStatus);
+  const vaultOn = isVaultEnabled();
+  const liveNotes = notes.filter(n => !n.isDeleted);
+  const aiProvider = getAIProvider();
+
+  useEffect(() => {
+    const handleUpdate = (e: Event) => setStatus((e as CustomEvent<EmbeddingStatus>).detail);
+    window.addEventListener(EMBEDDINGS_EVENT, handleUpdate);
+    return () => window.removeEventListener(EMBEDDINGS_EVENT, handleUpdate);
+  }, []);
+
+  const handleChange = (value: string) => {
+    const id = value === 'off' ? null : value as EmbeddingProviderId;
+    setProvider(id);
+    setEmbeddingProvider(id, liveNotes, currentUser?.uid || null);
+  };
+
+  const options: { id: EmbeddingProviderId | null; label: string; hint: string; disabled?: boolean }[] = [
+    { id: null, label: 'Off', hint: 'Search matches words only.' },
+    { id: 'local', label: EMBEDDING_PROVIDERS.local.label, hint: LOCAL_HINT },
+    {
+      id: 'ai',
+      label: `${aiProvider.label} embeddings`,
+      hint: currentUser
+        ? `Uses ${aiProvider.embeddingModel} from the AI provider chosen under AI Provider. Note text is sent to it and each batch counts toward the daily AI limit.`
+        : 'Sign in to use AI provider embeddings.',
+      disabled: !currentUser
+    }
+  ];
+
+  return (
+    <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-4 animate-[fadeIn_0.2s_ease-out]">
+      <div>
+        <h4 className="font-black text-white uppercase tracking-tight">Semantic Search</h4>
+        <p className="text-xs text-slate-500">Find notes by meaning ("≈" next to the search box) and see related notes when a note is open.</p>
+      </div>
+
+      {vaultOn ? (
+        <p className="text-xs text-amber-400">Unavailable while end-to-end encryption is on. Embeddings would reveal what your notes say, so none are created or kept.</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {options.map(option => (
+              <label key={option.id || 'off'} className={`block p-3 rounded-xl border transition-all ${option.disabled ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'} ${provider === option.id ? 'border-primary-500 bg-primary-600/10' : 'border-slate-700 hover:border-slate-500'}`}>
+                <div className="flex items-center gap-2">
+                  <input type="radio" name="embedding-provider" checked={provider === option.id} disabled={option.disabled} onChange={() => handleChange(option.id || 'off')} />
+                  <span className="text-sm font-bold text-slate-200">{option.label}</span>
+                </div>
+                <p className="text-[10px] text-slate-500 ml-5">{option.hint}</p>
+              </label>
+            ))}
+          </div>
+
+          {provider && (
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <div className="text-xs text-slate-400">
+                {status.isIndexing ? `Indexing… ${status.indexed}/${status.total}` : `${status.indexed}/${status.total} notes indexed`}
+                {status.lastError && <span className="block text-rose-400 mt-1">{status.lastError}</span>}
+              </div>
+              <button
+                onClick={() => rebuildEmbeddings(liveNotes, currentUser?.uid || null)}
+                disabled={status.isIndexing}
+                className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-700 text-slate-400 hover:border-primary-400 hover:text-white disabled:opacity-40 transition-all"
+              >
+                Rebuild index
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SemanticSearchPanel;
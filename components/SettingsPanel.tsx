@@ -8,7 +8,15 @@ import {
 import { runConnectivityTest, getAIUsageLogs, DAILY_REQUEST_LIMIT } from '../services/geminiService';
 import { exportDataToFile, syncAllNotes } from '../services/storageService';
 import { getTrafficLogs, clearTrafficLogs, TrafficEntry } from '../services/trafficService';
-import { Theme, User, Note } from '../types';
+import { Theme, User, Note, Folder } from '../types';
+import BackupRestorePanel from './BackupRestorePanel';
+import ExternalImportPanel from './ExternalImportPanel';
+import VaultSettingsPanel from './VaultSettingsPanel';
+import TrashRetentionPanel from './TrashRetentionPanel';
+import ShortcutSettingsPanel from './ShortcutSettingsPanel';
+import SemanticSearchPanel from './SemanticSearchPanel';
+import AIProviderPanel from './AIProviderPanel';
+import { loadAISettings } from '../services/aiProviders';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -18,11 +26,14 @@ interface SettingsPanelProps {
   toggleDarkMode: () => void;
   theme: Theme;
   setTheme: (theme: Theme) => void;
-  notes: Note[];
+  notes: Note[]; // Full vault, including trash
+  folders: Folder[];
+  onDataImported?: () => void;
+  onRetentionChanged?: (retentionDays: number, user: User | null) => void;
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ 
-    isOpen, onClose, currentUser, darkMode, toggleDarkMode, theme, setTheme, notes
+    isOpen, onClose, currentUser, darkMode, toggleDarkMode, theme, setTheme, notes, folders, onDataImported, onRetentionChanged
 }) => {
   const [activeTab, setActiveTab] = useState('appearance');
   const [requests, setRequests] = useState<User[]>([]);
@@ -37,6 +48,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
 
   const userIsAdmin = isAdmin(currentUser);
   const userIsSuperAdmin = isGlobalAdmin(currentUser);
+  const canEdit = currentUser ? currentUser.permission === 'edit' : true;
 
   useEffect(() => {
     if (isOpen) {
@@ -72,17 +84,22 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     const [dbCheck, aiCheck] = await Promise.all([checkDatabaseConnection(), runConnectivityTest()]);
     
     const storageSize = new Blob(Object.values(localStorage)).size / 1024;
-    const rawKey = (process.env.API_KEY || "").trim();
-    const keyHint = rawKey.length > 8 ? `${rawKey.substring(0, 4)}...${rawKey.substring(rawKey.length - 4)}` : "Not Set";
+    const aiSettings = loadAISettings();
+    const rawKey = (aiSettings.provider === 'openai' ? aiSettings.openai.apiKey || "" : process.env.API_KEY || "").trim();
+    const keyHint = aiSettings.provider === 'mock' ? "Not Needed" : rawKey.length > 8 ? `${rawKey.substring(0, 4)}...${rawKey.substring(rawKey.length - 4)}` : "Not Set";
     
-    // DNS Reachability Check
+    // DNS Reachability Check (against the active AI provider's host)
     let dnsStatus = "Checking...";
-    try {
-        const start = Date.now();
-        await fetch('https://generativelanguage.googleapis.com/', { mode: 'no-cors' });
-        dnsStatus = `Reachable (${Date.now() - start}ms)`;
-    } catch {
-        dnsStatus = "Blocked / Unreachable";
+    if (aiSettings.provider === 'mock') {
+        dnsStatus = "Not Needed (Mock)";
+    } else {
+        try {
+            const start = Date.now();
+            await fetch(aiSettings.provider === 'openai' ? aiSettings.openai.baseUrl : 'https://generativelanguage.googleapis.com/', { mode: 'no-cors' });
+            dnsStatus = `Reachable (${Date.now() - start}ms)`;
+        } catch {
+            dnsStatus = "Blocked / Unreachable";
+        }
     }
     
     setHealthStatus({
@@ -134,7 +151,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           {/* Sidebar */}
           <div className="w-64 border-r border-slate-700/50 bg-[#0f172a] p-4 space-y-1.5 overflow-y-auto">
             <button onClick={() => setActiveTab('appearance')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'appearance' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>Visuals</button>
+            <button onClick={() => setActiveTab('shortcuts')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'shortcuts' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>Shortcuts</button>
+            <button onClick={() => setActiveTab('ai')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'ai' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>AI Provider</button>
+            <button onClick={() => setActiveTab('search')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'search' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>Semantic Search</button>
             <button onClick={() => setActiveTab('health')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'health' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>System Health</button>
+            <button onClick={() => setActiveTab('data')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'data' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>Backup & Restore</button>
+            {currentUser && (
+              <button onClick={() => setActiveTab('encryption')} className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-bold transition-all ${activeTab === 'encryption' ? 'bg-primary-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>Encryption</button>
+            )}
             
             {userIsAdmin && (
               <>
@@ -167,7 +191,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     </div>
                     <div className="p-6 bg-black/20 border border-slate-700/50 rounded-2xl">
                        <h5 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">API Connectivity</h5>
-                       <p className={`text-lg font-bold ${healthStatus?.dns.includes('Reachable') ? 'text-emerald-500' : 'text-rose-500'}`}>{healthStatus?.dns || 'Resolving...'}</p>
+                       <p className={`text-lg font-bold ${healthStatus?.dns.includes('Reachable') || healthStatus?.dns.includes('Not Needed') ? 'text-emerald-500' : 'text-rose-500'}`}>{healthStatus?.dns || 'Resolving...'}</p>
                     </div>
                     <div className="p-6 bg-black/20 border border-slate-700/50 rounded-2xl">
                        <h5 className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Active API Key Hint</h5>
@@ -183,7 +207,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     </div>
                  </div>
                  
-                 {(healthStatus?.dns.includes('Blocked') || healthStatus?.ai.includes('Network Block')) && (
+                 {loadAISettings().provider === 'gemini' && (healthStatus?.dns.includes('Blocked') || healthStatus?.ai.includes('Network Block')) && (
                    <div className="p-6 bg-rose-500/10 border border-rose-500/20 rounded-2xl animate-pulse">
                       <h4 className="text-sm font-black text-rose-500 uppercase mb-2 flex items-center gap-2">⚠️ Network Interference Detected</h4>
                       <div className="text-xs text-rose-200/80 leading-relaxed">
@@ -201,7 +225,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     <div className="flex flex-col md:flex-row items-center gap-6">
                         <div className="flex-1">
                             <h4 className="font-black text-white uppercase tracking-tight mb-2">Detailed Infrastructure Sweep</h4>
-                            <p className="text-xs text-slate-400 leading-relaxed">This runs a diagnostic handshake with Gemini 3 Pro. Note: If you see "Failed to Fetch", check your browser's Developer Tools (F12) Console for specific CORS errors.</p>
+                            <p className="text-xs text-slate-400 leading-relaxed">This runs a diagnostic handshake with the AI provider chosen under AI Provider. Note: If you see "Failed to Fetch", check your browser's Developer Tools (F12) Console for specific CORS errors.</p>
                         </div>
                         <button onClick={runDiagnostics} className="whitespace-nowrap px-8 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-xs font-black uppercase tracking-widest transition-all shadow-xl active:scale-95">Re-run Diagnostics</button>
                     </div>
@@ -327,6 +351,24 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               </div>
             )}
 
+            {activeTab === 'shortcuts' && <ShortcutSettingsPanel />}
+
+            {activeTab === 'ai' && <AIProviderPanel currentUser={currentUser} notes={notes} />}
+
+            {activeTab === 'search' && <SemanticSearchPanel currentUser={currentUser} notes={notes} />}
+
+            {activeTab === 'data' && (
+              <div className="space-y-6">
+                <BackupRestorePanel notes={notes} folders={folders} userId={currentUser?.uid || null} canEdit={canEdit} onImported={onDataImported} />
+                <ExternalImportPanel notes={notes} folders={folders} userId={currentUser?.uid || null} canEdit={canEdit} onImported={onDataImported} />
+                <TrashRetentionPanel currentUser={currentUser} canEdit={canEdit} onChanged={onRetentionChanged} />
+              </div>
+            )}
+
+            {activeTab === 'encryption' && currentUser && (
+              <VaultSettingsPanel notes={notes} userId={currentUser.uid} canEdit={canEdit} onChanged={onDataImported} />
+            )}
+
             {activeTab === 'traffic' && userIsAdmin && (
               <div className="space-y-6 animate-[fadeIn_0.2s_ease-out]">
                 <div className="flex justify-between items-center">
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ShortcutAction, ShortcutMap, SHORTCUT_LABELS, DEFAULT_SHORTCUTS,
+  loadShortcuts, saveShortcuts, comboFromEvent, findShortcutConflict, formatCombo
+} from '../services/commandService';
+
+const ShortcutSettingsPanel: React.FC = () => {
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(loadShortcuts);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [message, setMessage] = useState('');
+
+  const update = (next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  };
+
+  // While recording, the next non-modifier key press becomes the shortcut. Escape cancels.
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      const conflict = findShortcutConflict(shortcuts, recording, combo);
+      if (conflict) {
+        setMessage(`${formatCombo(combo)} is already used by "${SHORTCUT_LABELS[conflict]}".`);
+        return;
+      }
+      update({ ...shortcuts, [recording]: combo });
+      setMessage('');
+      setRecording(null);
+    };
+    // Capture phase so the app's own shortcuts don't fire while recording
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, shortcuts]);
+
+  const handleReset = () => {
+    update({ ...DEFAULT_SHORTCUTS });
+    setMessage('Shortcuts reset to defaults.');
+  };
+
+  return (
+    <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-4 animate-[fadeIn_0.2s_ease-out]">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-black text-white uppercase tracking-tight">Keyboard Shortcuts</h4>
+          <p className="text-xs text-slate-500">Click a shortcut and press the new key combination. Escape cancels, Clear disables it.</p>
+        </div>
+        <button onClick={handleReset} className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-700 text-slate-400 hover:border-primary-400 hover:text-white transition-all">Reset</button>
+      </div>
+      <div className="divide-y divide-slate-800">
+        {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+          <div key={action} className="flex items-center justify-between py-2.5">
+            <span className="text-sm text-slate-300">{SHORTCUT_LABELS[action]}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => { setRecording(recording === action ? null : action); setMessage(''); }}
+                className={`min-w-[96px] px-3 py-1.5 rounded-lg font-mono text-xs border transition-all ${recording === action ? 'border-primary-500 text-primary-300 animate-pulse' : 'border-slate-700 text-slate-200 hover:border-primary-400'}`}
+              >
+                {recording === action ? 'Press keys…' : formatCombo(shortcuts[action]) || 'None'}
+              </button>
+              <button onClick={() => update({ ...shortcuts, [action]: '' })} disabled={!shortcuts[action]} className="text-[10px] font-bold uppercase text-slate-500 hover:text-rose-400 disabled:opacity-30">Clear</button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {message && <p className="text-xs text-amber-400">{message}</p>}
+    </div>
+  );
+};
+
+export default ShortcutSettingsPanel;
@@ -1,5 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { Note, Folder } from '../types';
+import { FolderNode, FolderDropPosition, buildFolderTree, countNotesRecursive, moveFolder } from '../services/folderService';
+import { describeSmartQuery } from '../services/smartFolderService';
 
 interface SidebarProps {
   notes: Note[];
@@ -7,14 +9,19 @@ interface SidebarProps {
   onTagClick: (tag: string) => void;
   onNoteClick: (note: Note) => void;
   onFolderClick: (folderId: string | null) => void;
-  onCreateFolder: (name: string) => void;
+  onCreateFolder: (name: string, parentId?: string) => void;
   onDeleteFolder: (id: string) => void;
-  onReorderFolders: (folders: Folder[]) => void;
+  onReorderFolders: (changed: Folder[]) => void; // Folders whose parentId or order changed
   onMoveNote: (noteId: string, folderId: string | undefined) => void;
   activeTag: string | null;
   activeFolderId: string | null;
   activeDate: Date | null;
   onDateClick: (date: Date | null) => void;
+  smartFolders?: Folder[];
+  smartFolderCounts?: Map<string, number>;
+  activeSmartFolderId?: string | null;
+  onApplySmartFolder?: (folder: Folder) => void;
+  onDeleteSmartFolder?: (id: string) => void;
   className?: string;
 }
 
@@ -93,15 +100,35 @@ const Calendar: React.FC<{ activeDate: Date | null; onDateClick: (d: Date | null
     );
 };
 
+const EXPANDED_FOLDERS_KEY = 'weavenote_expanded_folders';
+
+const loadExpandedFolders = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(EXPANDED_FOLDERS_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ 
     notes, folders, onTagClick, onNoteClick, onFolderClick, 
     onCreateFolder, onDeleteFolder, onReorderFolders, onMoveNote,
-    activeTag, activeFolderId, activeDate, onDateClick, className = "" 
+    activeTag, activeFolderId, activeDate, onDateClick,
+    smartFolders = [], smartFolderCounts, activeSmartFolderId = null, onApplySmartFolder, onDeleteSmartFolder, className = "" 
 }) => {
   const [newFolderName, setNewFolderName] = useState('');
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
-  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
-  const [dragOverFolderId, setDragOverFolderId] = useState<string | null>(null);
+  const [newFolderParentId, setNewFolderParentId] = useState<string | undefined>(undefined);
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(loadExpandedFolders);
+  const [dragOver, setDragOver] = useState<{ id: string; position: FolderDropPosition } | null>(null);
+
+  const folderTree = useMemo(() => buildFolderTree(folders), [folders]);
+  const noteCounts = useMemo(() => countNotesRecursive(notes, folders), [notes, folders]);
+
+  const updateExpanded = (next: Set<string>) => {
+    setExpandedFolders(next);
+    localStorage.setItem(EXPANDED_FOLDERS_KEY, JSON.stringify(Array.from(next)));
+  };
 
   const toggleFolderExpansion = (e: React.MouseEvent, folderId: string) => {
     e.stopPropagation();
@@ -111,7 +138,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     } else {
       newExpanded.add(folderId);
     }
-    setExpandedFolders(newExpanded);
+    updateExpanded(newExpanded);
   };
 
   const topTags = useMemo(() => {
@@ -125,27 +152,51 @@ const Sidebar: React.FC<SidebarProps> = ({
     return `hsl(${Math.abs(hash % 360)}, 70%, 45%)`; 
   };
 
+  const startCreating = (parentId?: string) => {
+    setNewFolderParentId(parentId);
+    setIsCreatingFolder(true);
+    if (parentId && !expandedFolders.has(parentId)) updateExpanded(new Set(expandedFolders).add(parentId));
+  };
+
   const handleCreateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newFolderName.trim()) {
-      onCreateFolder(newFolderName.trim());
+      onCreateFolder(newFolderName.trim(), newFolderParentId);
       setNewFolderName('');
       setIsCreatingFolder(false);
     }
   };
 
+  const isFolderDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('folderid');
+
+  // Folder drags use the top/bottom quarter of a row to reorder and the middle to nest; notes always file inside.
+  const dropPosition = (e: React.DragEvent): FolderDropPosition => {
+    if (!isFolderDrag(e)) return 'inside';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+  };
+
   const handleDragOver = (e: React.DragEvent, id: string | null) => {
     e.preventDefault();
-    setDragOverFolderId(id === null ? 'null' : id);
+    setDragOver({ id: id === null ? 'null' : id, position: id === null ? 'inside' : dropPosition(e) });
   };
 
   const handleDragLeave = () => {
-    setDragOverFolderId(null);
+    setDragOver(null);
   };
 
   const handleDrop = (e: React.DragEvent, folderId: string | undefined) => {
     e.preventDefault();
-    setDragOverFolderId(null);
+    const position = folderId ? dropPosition(e) : 'inside';
+    setDragOver(null);
+    const draggedFolderId = e.dataTransfer.getData('folderId');
+    if (draggedFolderId) {
+      const changed = moveFolder(folders, draggedFolderId, folderId ?? null, position);
+      if (changed.length > 0) onReorderFolders(changed);
+      if (folderId && position === 'inside' && !expandedFolders.has(folderId)) updateExpanded(new Set(expandedFolders).add(folderId));
+      return;
+    }
     const noteId = e.dataTransfer.getData('noteId');
     if (noteId && onMoveNote) {
       // If folderId is undefined, it removes it from its current folder
@@ -153,6 +204,90 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const renderCreateForm = () => (
+    <form onSubmit={handleCreateSubmit} className="mb-1">
+      <input 
+        autoFocus
+        type="text" 
+        value={newFolderName} 
+        onChange={e => setNewFolderName(e.target.value)}
+        placeholder={newFolderParentId ? "Subfolder name..." : "Folder name..."}
+        onBlur={() => !newFolderName && setIsCreatingFolder(false)}
+        className="w-full px-2 py-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600 outline-none focus:ring-1 focus:ring-primary-500"
+      />
+    </form>
+  );
+
+  const renderFolder = (node: FolderNode): React.ReactNode => {
+    const { folder, children } = node;
+    const isExpanded = expandedFolders.has(folder.id);
+    const folderNotes = notes.filter(n => n.folderId === folder.id);
+    const isDragOver = dragOver?.id === folder.id;
+
+    return (
+      <div key={folder.id} className="group/folder space-y-1">
+        <div 
+          draggable
+          onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.setData('folderId', folder.id); }}
+          onDragOver={(e) => handleDragOver(e, folder.id)}
+          onDragLeave={handleDragLeave}
+          onDrop={(e) => handleDrop(e, folder.id)}
+          className={`w-full flex items-center rounded-lg transition-all ${activeFolderId === folder.id ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/20 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700/50'} ${isDragOver && dragOver?.position === 'inside' ? 'ring-2 ring-primary-500 ring-inset bg-primary-100/50 scale-[1.02] shadow-md' : ''} ${isDragOver && dragOver?.position === 'before' ? 'border-t-2 border-primary-500' : ''} ${isDragOver && dragOver?.position === 'after' ? 'border-b-2 border-primary-500' : ''}`}
+        >
+            <button 
+              onClick={(e) => toggleFolderExpansion(e, folder.id)}
+              className={`p-2 transition-transform duration-200 transform ${isExpanded ? 'rotate-90' : ''}`}
+              title={isExpanded ? "Collapse" : "Expand"}
+            >
+              <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="m9 18 6-6 6-6"/></svg>
+            </button>
+            
+            <button 
+               onClick={() => onFolderClick(folder.id)} 
+               className="flex-1 text-left py-2 text-sm font-medium truncate"
+            >
+              {folder.name}
+            </button>
+            
+            <div className="flex items-center gap-1.5 pr-2">
+              <span className="text-[10px] opacity-40 font-mono" title="Notes in this folder and its subfolders">{noteCounts.get(folder.id) || 0}</span>
+              <button 
+                onClick={(e) => { e.stopPropagation(); startCreating(folder.id); }}
+                className="opacity-0 group-hover/folder:opacity-100 p-1 hover:text-primary-500 transition-opacity"
+                title="New Subfolder"
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><line x1="12" y1="5" x2="12" y2="19"></line><line x1="5" y1="12" x2="19" y2="12"></line></svg>
+              </button>
+              <button 
+                onClick={(e) => { e.stopPropagation(); onDeleteFolder(folder.id); }}
+                className="opacity-0 group-hover/folder:opacity-100 p-1 hover:text-red-500 transition-opacity"
+                title="Delete Folder"
+              >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+              </button>
+            </div>
+        </div>
+        
+        {isExpanded && (
+          <div className="ml-5 space-y-0.5 border-l-2 border-slate-100 dark:border-slate-700 pl-2 animate-[fadeIn_0.1s_ease-out]">
+            {isCreatingFolder && newFolderParentId === folder.id && renderCreateForm()}
+            {children.map(renderFolder)}
+            {folderNotes.map(note => (
+              <button 
+                 key={note.id}
+                 onClick={() => onNoteClick(note)}
+                 className="w-full text-left px-2 py-1 text-[11px] text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors truncate"
+              >
+                • {note.title}
+              </button>
+            ))}
+            {folderNotes.length === 0 && children.length === 0 && <p className="px-2 py-1 text-[10px] text-slate-300 italic">No notes in folder</p>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <aside className={`w-full lg:w-72 flex-shrink-0 space-y-6 ${className}`}>
       
@@ -161,24 +296,12 @@ const Sidebar: React.FC<SidebarProps> = ({
       <div className="bg-white dark:bg-slate-800 rounded-xl p-5 shadow-sm border border-slate-200 dark:border-slate-700">
           <div className="flex justify-between items-center mb-4 border-b border-slate-50 dark:border-slate-700 pb-2">
             <h3 className="font-bold text-slate-700 dark:text-slate-200 flex items-center gap-2 text-xs uppercase tracking-wider">🗂️ Folders</h3>
-            <button onClick={() => setIsCreatingFolder(true)} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 transition-colors">
+            <button onClick={() => startCreating()} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-500 transition-colors">
               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><line x1="12" y1="5" x2="12" y2="19"></line><line x1="5" y1="12" x2="19" y2="12"></line></svg>
             </button>
           </div>
           
-          {isCreatingFolder && (
-            <form onSubmit={handleCreateSubmit} className="mb-3">
-              <input 
-                autoFocus
-                type="text" 
-                value={newFolderName} 
-                onChange={e => setNewFolderName(e.target.value)}
-                placeholder="Folder name..."
-                onBlur={() => !newFolderName && setIsCreatingFolder(false)}
-                className="w-full px-2 py-1.5 text-sm border rounded dark:bg-slate-700 dark:border-slate-600 outline-none focus:ring-1 focus:ring-primary-500"
-              />
-            </form>
-          )}
+          {isCreatingFolder && !newFolderParentId && renderCreateForm()}
 
           <div className="space-y-1">
                <button 
@@ -186,72 +309,45 @@ const Sidebar: React.FC<SidebarProps> = ({
                   onDragOver={(e) => handleDragOver(e, null)}
                   onDragLeave={handleDragLeave}
                   onDrop={(e) => handleDrop(e, undefined)}
-                  className={`w-full text-left px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all group/all-notes ${activeFolderId === null ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/20 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700/50'} ${dragOverFolderId === 'null' ? 'ring-2 ring-primary-500 ring-inset bg-primary-100/50' : ''}`}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all group/all-notes ${activeFolderId === null ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/20 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700/50'} ${dragOver?.id === 'null' ? 'ring-2 ring-primary-500 ring-inset bg-primary-100/50' : ''}`}
                >
                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path></svg>
                  All Notes
-                 {dragOverFolderId === 'null' && <span className="ml-auto text-[10px] font-bold text-primary-600 animate-pulse">Un-file here</span>}
+                 {dragOver?.id === 'null' && <span className="ml-auto text-[10px] font-bold text-primary-600 animate-pulse">Un-file here</span>}
                </button>
-               {folders.map(folder => {
-                   const isExpanded = expandedFolders.has(folder.id);
-                   const folderNotes = notes.filter(n => n.folderId === folder.id);
-                   const isDragOver = dragOverFolderId === folder.id;
-                   
-                   return (
-                     <div key={folder.id} className="group/folder space-y-1">
-                       <div 
-                         onDragOver={(e) => handleDragOver(e, folder.id)}
-                         onDragLeave={handleDragLeave}
-                         onDrop={(e) => handleDrop(e, folder.id)}
-                         className={`w-full flex items-center rounded-lg transition-all ${activeFolderId === folder.id ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/20 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700/50'} ${isDragOver ? 'ring-2 ring-primary-500 ring-inset bg-primary-100/50 scale-[1.02] shadow-md' : ''}`}
-                       >
-                           <button 
-                             onClick={(e) => toggleFolderExpansion(e, folder.id)}
-                             className={`p-2 transition-transform duration-200 transform ${isExpanded ? 'rotate-90' : ''}`}
-                             title={isExpanded ? "Collapse" : "Expand"}
-                           >
-                             <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3"><path d="m9 18 6-6 6-6"/></svg>
-                           </button>
-                           
-                           <button 
-                              onClick={() => onFolderClick(folder.id)} 
-                              className="flex-1 text-left py-2 text-sm font-medium truncate"
-                           >
-                             {folder.name}
-                           </button>
-                           
-                           <div className="flex items-center gap-1.5 pr-2">
-                             <span className="text-[10px] opacity-40 font-mono">{folderNotes.length}</span>
-                             <button 
-                               onClick={(e) => { e.stopPropagation(); onDeleteFolder(folder.id); }}
-                               className="opacity-0 group-hover/folder:opacity-100 p-1 hover:text-red-500 transition-opacity"
-                               title="Delete Folder"
-                             >
-                               <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
-                             </button>
-                           </div>
-                       </div>
-                       
-                       {isExpanded && (
-                         <div className="ml-5 space-y-0.5 border-l-2 border-slate-100 dark:border-slate-700 pl-2 animate-[fadeIn_0.1s_ease-out]">
-                           {folderNotes.map(note => (
-                             <button 
-                                key={note.id}
-                                onClick={() => onNoteClick(note)}
-                                className="w-full text-left px-2 py-1 text-[11px] text-slate-500 dark:text-slate-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors truncate"
-                             >
-                               • {note.title}
-                             </button>
-                           ))}
-                           {folderNotes.length === 0 && <p className="px-2 py-1 text-[10px] text-slate-300 italic">No notes in folder</p>}
-                         </div>
-                       )}
-                     </div>
-                   );
-               })}
+               {folderTree.map(renderFolder)}
           </div>
       </div>
 
+      {smartFolders.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl p-5 shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
+          <h3 className="font-bold text-slate-700 dark:text-slate-200 mb-4 border-b border-slate-50 dark:border-slate-700 pb-2 flex items-center gap-2 text-xs uppercase tracking-wider">✨ Smart Folders</h3>
+          <div className="space-y-1">
+            {smartFolders.map(folder => (
+              <div key={folder.id} className="group/smart flex items-center">
+                <button
+                  onClick={() => onApplySmartFolder?.(folder)}
+                  title={describeSmartQuery(folder.smartQuery || {}, folders)}
+                  className={`flex-1 min-w-0 text-left px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all ${activeSmartFolderId === folder.id ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/20 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                >
+                  <span className="truncate flex-1">{folder.name}</span>
+                  <span className="text-[10px] opacity-40 font-mono">{smartFolderCounts?.get(folder.id) ?? 0}</span>
+                </button>
+                {onDeleteSmartFolder && (
+                  <button
+                    onClick={() => onDeleteSmartFolder(folder.id)}
+                    className="opacity-0 group-hover/smart:opacity-100 p-1 text-slate-400 hover:text-red-500 transition-opacity"
+                    title="Delete Smart Folder"
+                  >
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white dark:bg-slate-800 rounded-xl p-5 shadow-sm border border-slate-200 dark:border-slate-700 transition-colors">
         <h3 className="font-bold text-slate-700 dark:text-slate-200 mb-4 flex items-center gap-2 text-xs uppercase tracking-wider">🔥 Popular Tags</h3>
         <div className="flex flex-wrap gap-2">
@@ -1,17 +1,19 @@
 import React from 'react';
 import { Note, NOTE_COLORS } from '../types';
+import { daysUntilPurge, formatRetention } from '../services/retentionService';
 
 interface TrashModalProps {
   isOpen: boolean;
   onClose: () => void;
   trashedNotes: Note[];
+  retentionDays: number;
   onRestore: (id: string) => void;
   onPermanentlyDelete: (id: string) => void;
   onEmptyTrash: () => void;
 }
 
 const TrashModal: React.FC<TrashModalProps> = ({ 
-  isOpen, onClose, trashedNotes, onRestore, onPermanentlyDelete, onEmptyTrash 
+  isOpen, onClose, trashedNotes, retentionDays, onRestore, onPermanentlyDelete, onEmptyTrash 
 }) => {
   if (!isOpen) return null;
 
@@ -23,7 +25,9 @@ const TrashModal: React.FC<TrashModalProps> = ({
             <h2 className="text-xl font-bold text-slate-800 dark:text-white flex items-center gap-2">
               <span className="text-red-500">🗑️</span> Trash
             </h2>
-            <p className="text-xs text-slate-500 mt-1">Notes in trash are deleted permanently after 30 days.</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {retentionDays > 0 ? `Notes in trash are deleted permanently after ${formatRetention(retentionDays)}.` : 'Notes stay in trash until you delete them.'}
+            </p>
           </div>
           <div className="flex items-center gap-3">
             {trashedNotes.length > 0 && (
@@ -52,12 +56,12 @@ const TrashModal: React.FC<TrashModalProps> = ({
             ) : (
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     {trashedNotes.map(note => {
-                        const daysLeft = Math.max(0, 30 - Math.floor((Date.now() - (note.deletedAt || 0)) / (1000 * 60 * 60 * 24)));
+                        const daysLeft = daysUntilPurge(note, retentionDays);
                         return (
                             <div key={note.id} className={`p-4 rounded-xl border border-slate-100 dark:border-slate-700 shadow-sm flex flex-col ${NOTE_COLORS[note.color]} bg-opacity-30`}>
                                 <div className="flex justify-between items-start mb-2">
                                     <h4 className="font-bold text-slate-800 dark:text-white truncate pr-2">{note.title || 'Untitled'}</h4>
-                                    <span className="text-[10px] font-bold bg-white/50 px-1.5 py-0.5 rounded text-slate-500 shrink-0">{daysLeft}d left</span>
+                                    {daysLeft !== null && <span className="text-[10px] font-bold bg-white/50 px-1.5 py-0.5 rounded text-slate-500 shrink-0">{daysLeft}d left</span>}
                                 </div>
                                 <p className="text-xs text-slate-600 dark:text-slate-300 line-clamp-2 mb-4 opacity-80">{note.content.substring(0, 100)}...</p>
                                 <div className="mt-auto flex justify-end gap-2">
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { User } from '../types';
+import { isAdmin } from '../services/authService';
+import {
+  RETENTION_CHOICES, DEFAULT_RETENTION_DAYS, formatRetention,
+  loadRetentionDefault, saveRetentionDefault, getUserRetention, saveUserRetention
+} from '../services/retentionService';
+
+interface TrashRetentionPanelProps {
+  currentUser: User | null;
+  canEdit: boolean;
+  onChanged?: (retentionDays: number, user: User | null) => void;
+}
+
+const TrashRetentionPanel: React.FC<TrashRetentionPanelProps> = ({ currentUser, canEdit, onChanged }) => {
+  const [defaultDays, setDefaultDays] = useState(DEFAULT_RETENTION_DAYS);
+  const [ownDays, setOwnDays] = useState<number | null>(() => getUserRetention(currentUser));
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const userIsAdmin = isAdmin(currentUser);
+
+  useEffect(() => {
+    loadRetentionDefault().then(setDefaultDays);
+  }, []);
+
+  const save = async (task: () => Promise<void>) => {
+    setIsSaving(true);
+    setMessage('');
+    try {
+      await task();
+      setMessage('Saved.');
+    } catch (err: any) {
+      setMessage(err.message || 'Could not save the retention setting.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOwnChange = (value: string) => save(async () => {
+    const days = value === 'default' ? null : Number(value);
+    const user = await saveUserRetention(currentUser, days);
+    setOwnDays(days);
+    onChanged?.(days ?? defaultDays, user);
+  });
+
+  const handleDefaultChange = (value: string) => save(async () => {
+    const days = Number(value);
+    await saveRetentionDefault(days, currentUser?.username || 'Guest');
+    setDefaultDays(days);
+    if (ownDays === null) onChanged?.(days, currentUser);
+  });
+
+  const selectClass = 'p-2 bg-black/20 border border-slate-700 rounded-xl text-xs text-slate-200 outline-none focus:border-primary-500 disabled:opacity-40';
+
+  return (
+    <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-4 animate-[fadeIn_0.2s_ease-out]">
+      <div>
+        <h4 className="font-black text-white uppercase tracking-tight">Trash Retention</h4>
+        <p className="text-xs text-slate-500">How long trashed notes are kept before they are deleted for good.</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-xs font-bold text-slate-300">Your trash</span>
+        <select value={ownDays === null ? 'default' : String(ownDays)} onChange={(e) => handleOwnChange(e.target.value)} disabled={!canEdit || isSaving} className={selectClass}>
+          <option value="default">Default ({formatRetention(defaultDays)})</option>
+          {RETENTION_CHOICES.map(days => <option key={days} value={days}>{formatRetention(days)}</option>)}
+        </select>
+      </div>
+
+      {userIsAdmin && (
+        <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-700/50">
+          <span className="text-xs font-bold text-indigo-300">Default for all users</span>
+          <select value={String(defaultDays)} onChange={(e) => handleDefaultChange(e.target.value)} disabled={isSaving} className={selectClass}>
+            {RETENTION_CHOICES.map(days => <option key={days} value={days}>{formatRetention(days)}</option>)}
+          </select>
+        </div>
+      )}
+
+      {message && <p className={`text-[10px] font-bold ${message === 'Saved.' ? 'text-emerald-400' : 'text-rose-400'}`}>{message}</p>}
+    </div>
+  );
+};
+
+export default TrashRetentionPanel;
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Note } from '../types';
+import { VAULT_EVENT, VaultState, getVaultState, unlockVault, lockVault } from '../services/cryptoService';
+import { enableVaultEncryption, disableVaultEncryption } from '../services/storageService';
+
+interface VaultSettingsPanelProps {
+  notes: Note[]; // Full vault, including trash
+  userId: string;
+  canEdit: boolean;
+  onChanged?: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const VaultSettingsPanel: React.FC<VaultSettingsPanelProps> = ({ notes, userId, canEdit, onChanged }) => {
+  const [vaultState, setVaultState] = useState<VaultState>(getVaultState);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const handleVaultUpdate = (e: Event) => setVaultState((e as CustomEvent<VaultState>).detail);
+    window.addEventListener(VAULT_EVENT, handleVaultUpdate);
+    return () => window.removeEventListener(VAULT_EVENT, handleVaultUpdate);
+  }, []);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    setProgress(null);
+    try {
+      await task();
+      setPassphrase('');
+      setConfirmation('');
+      setAcknowledged(false);
+      onChanged?.();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (passphrase !== confirmation) return setError('The passphrases do not match.');
+    run(() => enableVaultEncryption(passphrase, notes, userId, (done, total) => setProgress({ done, total })));
+  };
+
+  const handleDisable = () => {
+    if (!confirm(`Decrypt all ${notes.length} notes and turn encryption off? They will be stored as plain text again.`)) return;
+    run(() => disableVaultEncryption(notes, userId, (done, total) => setProgress({ done, total })));
+  };
+
+  const handleUnlock = () => run(async () => {
+    if (!await unlockVault(passphrase)) throw new Error('That passphrase does not match this vault.');
+  });
+
+  const inputClass = 'w-full p-3 bg-black/20 border border-slate-700 rounded-xl text-sm text-slate-200 outline-none focus:border-primary-500';
+
+  return (
+    <div className="p-6 bg-[#0f172a] rounded-2xl border border-slate-700/50 space-y-5 animate-[fadeIn_0.2s_ease-out]">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="font-black text-white uppercase tracking-tight">End-to-End Encryption</h4>
+          <p className="text-xs text-slate-500">Titles, content and project data are encrypted in this browser before they are synced. Tags, colors, folders and dates stay readable so the app can sort and filter.</p>
+        </div>
+        <span className={`shrink-0 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${vaultState === 'disabled' ? 'bg-slate-700 text-slate-400' : vaultState === 'locked' ? 'bg-amber-500/20 text-amber-300' : 'bg-emerald-500/20 text-emerald-300'}`}>
+          {vaultState === 'disabled' ? 'Off' : vaultState === 'locked' ? 'Locked' : 'Unlocked'}
+        </span>
+      </div>
+
+      {vaultState === 'disabled' && (
+        <div className="space-y-3">
+          <ul className="text-xs text-amber-300/80 space-y-1 list-disc pl-5">
+            <li>Your passphrase cannot be recovered. If you forget it, your notes are lost.</li>
+            <li>AI features (organize, ingest, deep dive) are turned off while encryption is on.</li>
+            <li>Revision history saved before today stays as it was stored.</li>
+          </ul>
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="New passphrase" className={inputClass} />
+          <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Confirm passphrase" className={inputClass} />
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+            I understand my passphrase cannot be recovered.
+          </label>
+          <div className="flex justify-end">
+            <button onClick={handleEnable} disabled={!canEdit || isBusy || !acknowledged || !passphrase} className="px-8 py-2.5 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+              {isBusy ? 'Encrypting...' : `Encrypt ${notes.length} Notes`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {vaultState === 'locked' && (
+        <div className="space-y-3">
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} />
+          <div className="flex justify-end">
+            <button onClick={handleUnlock} disabled={isBusy || !passphrase} className="px-8 py-2.5 bg-primary-600 hover:bg-primary-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+              {isBusy ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {vaultState === 'unlocked' && (
+        <div className="flex justify-end gap-3">
+          <button onClick={() => run(async () => lockVault())} disabled={isBusy} className="px-5 py-2 border border-slate-600 text-slate-300 hover:border-primary-400 rounded-xl text-xs font-black uppercase tracking-widest disabled:opacity-40">Lock Now</button>
+          <button onClick={handleDisable} disabled={!canEdit || isBusy} className="px-5 py-2 border border-rose-500/50 text-rose-300 hover:bg-rose-500/10 rounded-xl text-xs font-black uppercase tracking-widest disabled:opacity-40">
+            {isBusy ? 'Decrypting...' : 'Disable Encryption'}
+          </button>
+        </div>
+      )}
+
+      {progress && progress.total > 0 && (
+        <div className="w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-primary-500 transition-all" style={{ width: `${Math.round((progress.done / progress.total) * 100)}%` }} />
+        </div>
+      )}
+
+      {error && <p className="text-xs font-bold text-rose-400">{error}</p>}
+    </div>
+  );
+};
+
+export default VaultSettingsPanel;
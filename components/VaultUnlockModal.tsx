@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { unlockVault } from '../services/cryptoService';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+  onUnlocked: () => void;
+  onStayLocked: () => void;
+}
+
+const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({ isOpen, onUnlocked, onStayLocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      if (await unlockVault(passphrase)) {
+        setPassphrase('');
+        onUnlocked();
+      } else {
+        setError('That passphrase does not match this vault.');
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-5 border-b border-slate-100 dark:border-slate-700 bg-indigo-50 dark:bg-indigo-900/20">
+          <h2 className="text-xl font-black text-slate-800 dark:text-white flex items-center gap-2 uppercase tracking-tight">
+            <span className="p-1.5 bg-indigo-600 text-white rounded-lg shadow-sm">🔒</span> Vault Locked
+          </h2>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+            Your notes are end-to-end encrypted. Enter your passphrase to read and edit them on this device.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="w-full p-3 border border-slate-200 dark:border-slate-700 rounded-xl text-sm dark:bg-slate-900 dark:text-slate-200 outline-none focus:ring-2 focus:ring-primary-500/20"
+          />
+          {error && <p className="text-xs font-bold text-rose-500">{error}</p>}
+          <p className="text-[10px] text-slate-400">While locked, encrypted notes show only their tags, color and folder.</p>
+        </div>
+
+        <div className="p-5 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-3">
+          <button type="button" onClick={onStayLocked} className="px-6 py-2 text-xs font-black uppercase tracking-widest text-slate-500 hover:text-slate-700 dark:hover:text-slate-200">Stay Locked</button>
+          <button type="submit" disabled={isUnlocking || !passphrase} className="px-8 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default VaultUnlockModal;
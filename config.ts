@@ -29,3 +29,37 @@ export const FIREBASE_CONFIG = {
   appId: getEnvironmentKey('VITE_FIREBASE_APP_ID') || "1:217757941342:web:7921402a35a582af3dfecf",
   measurementId: getEnvironmentKey('VITE_FIREBASE_MEASUREMENT_ID') || "G-ZX4TYZENSM" 
 };
+
+// STORAGE BACKEND
+// Account data goes to Firestore unless overridden (e.g. "indexeddb" for a self-hosted/offline build, "memory" for tests).
+// Guest sessions default to sessionStorage; override with VITE_GUEST_STORAGE_BACKEND.
+export type StorageBackend = 'firestore' | 'session' | 'indexeddb' | 'memory';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['firestore', 'session', 'indexeddb', 'memory'];
+
+const readBackend = (key: string, fallback: StorageBackend): StorageBackend => {
+  const value = (getEnvironmentKey(key) || '').trim().toLowerCase() as StorageBackend;
+  return STORAGE_BACKENDS.includes(value) ? value : fallback;
+};
+
+export const STORAGE_BACKEND = readBackend('VITE_STORAGE_BACKEND', 'firestore');
+export const GUEST_STORAGE_BACKEND = readBackend('VITE_GUEST_STORAGE_BACKEND', 'session');
+
+// AI PROVIDER
+// Default for AI features; each browser can override it in Settings. "openai" targets any OpenAI-compatible
+// server (Ollama, llama.cpp, vLLM...), so teams without Google keys or with data-residency rules keep AI features.
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+const AI_PROVIDERS: AIProviderId[] = ['gemini', 'openai', 'mock'];
+
+const readAIProvider = (): AIProviderId => {
+  const value = (getEnvironmentKey('VITE_AI_PROVIDER') || '').trim().toLowerCase() as AIProviderId;
+  return AI_PROVIDERS.includes(value) ? value : 'gemini';
+};
+
+export const AI_PROVIDER = readAIProvider();
+export const OPENAI_COMPAT_DEFAULTS = {
+  baseUrl: getEnvironmentKey('VITE_OPENAI_BASE_URL') || 'http://localhost:11434/v1',
+  model: getEnvironmentKey('VITE_OPENAI_MODEL') || 'llama3.1',
+  embeddingModel: getEnvironmentKey('VITE_OPENAI_EMBEDDING_MODEL') || 'nomic-embed-text'
+};
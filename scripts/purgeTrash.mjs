@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+/**
+ * TRASH PURGE JOB
+ * Permanently deletes trashed notes (and their revision history) once they have been in the
+ * trash longer than their owner's retention, then writes one audit entry for the run.
+ * Retention rules mirror services/retentionService.ts: a per-user `trashRetentionDays` on the
+ * user doc, else `settings/trash.defaultRetentionDays`, else 30 days; 0 keeps trash forever.
+ *
+ *   npm run purge-trash -- [--dry-run] [--project <id>]
+ *
+ * Credentials come from GOOGLE_APPLICATION_CREDENTIALS (or the runtime service account on GCP).
+ * With FIRESTORE_EMULATOR_HOST set (e.g. localhost:8080) it runs against the local emulator.
+ * Cron example: 0 3 * * * cd /srv/weavenote && npm run purge-trash
+ */
+import { randomUUID } from 'node:crypto';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const BATCH_LIMIT = 450;
+const IN_QUERY_LIMIT = 30;
+const ACTOR = 'purge-job';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const projectArg = args.indexOf('--project');
+const projectId = projectArg >= 0 ? args[projectArg + 1] : process.env.GCLOUD_PROJECT || process.env.FIREBASE_PROJECT_ID;
+
+const useEmulator = !!process.env.FIRESTORE_EMULATOR_HOST;
+const app = initializeApp(useEmulator
+    ? { projectId: projectId || 'demo-weavenote' }
+    : { credential: applicationDefault(), projectId });
+const db = getFirestore(app);
+
+const isValidDays = (days) => Number.isInteger(days) && days >= 0;
+
+const isExpired = (note, retentionDays, now) =>
+    note.isDeleted === true && retentionDays > 0 && (note.deletedAt || 0) < now - retentionDays * DAY_MS;
+
+const chunk = (list, size) => Array.from({ length: Math.ceil(list.length / size) }, (_, i) => list.slice(i * size, (i + 1) * size));
+
+const loadDefaultRetention = async () => {
+    const snapshot = await db.doc('settings/trash').get();
+    const days = snapshot.exists ? snapshot.get('defaultRetentionDays') : undefined;
+    return isValidDays(days) ? days : DEFAULT_RETENTION_DAYS;
+};
+
+const deleteRefs = async (refs) => {
+    for (const group of chunk(refs, BATCH_LIMIT)) {
+        const batch = db.batch();
+        group.forEach(ref => batch.delete(ref));
+        await batch.commit();
+    }
+};
+
+const run = async () => {
+    const now = Date.now();
+    const defaultDays = await loadDefaultRetention();
+
+    const retentionByOwner = new Map();
+    const retentionFor = async (userId) => {
+        if (!retentionByOwner.has(userId)) {
+            const user = userId ? await db.doc(`users/${userId}`).get() : null;
+            const own = user?.exists ? user.get('trashRetentionDays') : undefined;
+            retentionByOwner.set(userId, isValidDays(own) ? own : defaultDays);
+        }
+        return retentionByOwner.get(userId);
+    };
+
+    const trashed = await db.collection('notes').where('isDeleted', '==', true).get();
+    const expired = [];
+    for (const doc of trashed.docs) {
+        const note = doc.data();
+        if (isExpired(note, await retentionFor(note.userId), now)) expired.push(doc);
+    }
+
+    const revisionRefs = [];
+    for (const group of chunk(expired.map(d => d.id), IN_QUERY_LIMIT)) {
+        const revisions = await db.collection('note_revisions').where('noteId', 'in', group).get();
+        revisionRefs.push(...revisions.docs.map(d => d.ref));
+    }
+
+    const owners = new Set(expired.map(d => d.get('userId')));
+    const details = `${expired.length} notes and ${revisionRefs.length} revisions from ${owners.size} users (default retention ${defaultDays} days)`;
+
+    if (dryRun) {
+        console.log(`[dry run] Would purge ${details}.`);
+        expired.forEach(d => console.log(`  ${d.id}  owner=${d.get('userId')}  deletedAt=${new Date(d.get('deletedAt') || 0).toISOString()}`));
+        return;
+    }
+
+    await deleteRefs(revisionRefs);
+    await deleteRefs(expired.map(d => d.ref));
+
+    const entry = { id: randomUUID(), timestamp: Date.now(), action: 'TRASH_PURGE', actor: ACTOR, target: 'notes', details };
+    await db.collection('audit_logs').doc(entry.id).set(entry);
+    console.log(`Purged ${details}.`);
+};
+
+run().catch(error => {
+    console.error('Trash purge failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createOpenAICompatibleProvider } from './aiProviders';
+
+// A streamed response whose body arrives in exactly these chunks
+const streamResponse = (chunks: string[]) => new Response(new ReadableStream({
+    start(controller) {
+        chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+        controller.close();
+    }
+}));
+
+const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+const collect = async (chunks: string[]) => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse(chunks)));
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', model: 'test', embeddingModel: 'test' });
+    let text = '';
+    for await (const delta of provider.stream({ input: 'hi' })) text += delta;
+    return text;
+};
+
+describe('OpenAI-compatible stream', () => {
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('joins deltas split across chunks', async () => {
+        const body = `${event('Hello')}\n\n${event(', world')}\n\ndata: [DONE]\n\n`;
+        expect(await collect([body.slice(0, 20), body.slice(20, 45), body.slice(45)])).toBe('Hello, world');
+    });
+
+    it('skips keep-alives and lines that are not valid JSON', async () => {
+        expect(await collect([`: keep-alive\n${event('a')}\ndata: \ndata: {not json\n${event('b')}\n`])).toBe('ab');
+    });
+
+    it('processes a last line that has no trailing newline', async () => {
+        expect(await collect([`${event('a')}\n`, event('b')])).toBe('ab');
+    });
+});
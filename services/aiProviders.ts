@@ -0,0 +1,344 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIProviderId, AI_PROVIDER, OPENAI_COMPAT_DEFAULTS } from '../config';
+
+/**
+ * AI PROVIDER CONTRACT
+ * Every provider turns an instruction plus input (and optional earlier chat turns) into text, can stream
+ * that text as it is produced, and can embed texts as vectors. Usage accounting, logging and the
+ * encryption guard live in geminiService, which calls whichever provider is active.
+ * Aborting `signal` cancels the request; a stream then stops by throwing an AbortError.
+ */
+
+export interface AITurn {
+    role: 'user' | 'assistant';
+    text: string;
+}
+
+export interface AIRequest {
+    system?: string; // Instructions for this call
+    input: string; // The material to work on
+    history?: AITurn[]; // Earlier chat turns, oldest first
+    json?: boolean; // Ask for a single JSON object back
+    maxTokens?: number;
+    signal?: AbortSignal;
+}
+
+export type EmbedPurpose = 'document' | 'query';
+
+export interface ConnectivityResult {
+    success: boolean;
+    message: string;
+    steps?: string[];
+}
+
+export interface AIProvider {
+    id: AIProviderId;
+    label: string;
+    model: string;
+    embeddingModel: string;
+    generate(request: AIRequest): Promise<string>;
+    stream(request: AIRequest): AsyncIterable<string>; // Yields text chunks as they arrive
+    embed(texts: string[], purpose: EmbedPurpose): Promise<number[][]>;
+    test(): Promise<ConnectivityResult>;
+}
+
+export interface OpenAICompatConfig {
+    baseUrl: string;
+    model: string;
+    embeddingModel: string;
+    apiKey?: string;
+}
+
+export interface AISettings {
+    provider: AIProviderId;
+    openai: OpenAICompatConfig;
+}
+
+export const AI_PROVIDER_EVENT = 'weavenote_ai_provider_update';
+const SETTINGS_KEY = 'weavenote_ai_provider';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException('The request was cancelled.', 'AbortError');
+};
+
+/**
+ * GEMINI (default)
+ */
+export const GEMINI_MODEL = 'gemini-3-flash-preview';
+export const GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
+
+/**
+ * Key Discovery Engine
+ * Scans all possible environment variable names to find a valid Gemini Key.
+ */
+const getBestApiKey = () => {
+    const candidates = [
+        { name: 'API_KEY', val: process.env.API_KEY },
+        { name: 'VITE_API_KEY', val: process.env.VITE_API_KEY },
+        { name: 'VITE_KEY', val: (process.env as any).VITE_KEY }
+    ];
+
+    // 1. Clean and filter candidates
+    const processed = candidates.map(c => {
+        const raw = (c.val || "").trim().replace(/^["']|["']$/g, "");
+        return {
+            name: c.name,
+            value: raw,
+            isPlaceholder: raw.toUpperCase().includes("GEMI") || raw.length < 10,
+            isValid: raw.startsWith("AIza")
+        };
+    });
+
+    // 2. Return the first valid 'AIza' key found
+    const winner = processed.find(p => p.isValid);
+    if (winner) return winner.value;
+
+    // 3. Fallback: if no valid key, return the best looking one for error reporting
+    return (processed.find(p => p.value !== "") || { value: "" }).value;
+};
+
+const geminiClient = () => {
+    const apiKey = getBestApiKey();
+    if (!apiKey || !apiKey.startsWith("AIza")) throw new Error("Infrastructure missing valid Gemini API Key.");
+    return new GoogleGenAI({ apiKey });
+};
+
+const geminiParams = (request: AIRequest) => ({
+    model: GEMINI_MODEL,
+    contents: [
+        ...(request.history || []).map(t => ({ role: t.role === 'assistant' ? 'model' : 'user', parts: [{ text: t.text }] })),
+        { role: 'user', parts: [{ text: request.input }] }
+    ],
+    config: {
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        ...(request.json ? { responseMimeType: 'application/json' } : {}),
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.signal ? { abortSignal: request.signal } : {})
+    }
+});
+
+export const createGeminiProvider = (): AIProvider => ({
+    id: 'gemini',
+    label: 'Google Gemini',
+    model: GEMINI_MODEL,
+    embeddingModel: GEMINI_EMBEDDING_MODEL,
+    async generate(request) {
+        const response = await geminiClient().models.generateContent(geminiParams(request));
+        return response.text || '';
+    },
+    async *stream(request) {
+        const stream = await geminiClient().models.generateContentStream(geminiParams(request));
+        for await (const chunk of stream) {
+            throwIfAborted(request.signal);
+            if (chunk.text) yield chunk.text;
+        }
+    },
+    async embed(texts, purpose) {
+        const response = await geminiClient().models.embedContent({
+            model: GEMINI_EMBEDDING_MODEL,
+            contents: texts,
+            config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT', outputDimensionality: 768 }
+        });
+        return (response.embeddings || []).map(e => e.values || []);
+    },
+    async test() {
+        const apiKey = getBestApiKey();
+
+        if (!apiKey) return { success: false, message: "Error: No API keys found in environment variables (Checked: API_KEY, VITE_API_KEY, VITE_KEY)." };
+
+        if (!apiKey.startsWith("AIza")) {
+            if (apiKey.toUpperCase().includes("GEMI")) {
+                return { success: false, message: "Critical: You have a placeholder string like 'GEMINI_API_KEY' in your environment variables. Replace it with the actual alphanumeric key from Google AI Studio." };
+            }
+            return { success: false, message: `Invalid Key Format: Key starts with '${apiKey.substring(0,4)}' but must start with 'AIza'. Check for leading spaces or quotes.` };
+        }
+
+        try {
+            const text = await this.generate({ input: 'ping', maxTokens: 5 });
+            if (text) {
+                return { success: true, message: "Handshake Successful", steps: ["Validated AIza prefix", "Connection established", "Tokens verified"] };
+            }
+            return { success: false, message: "Handshake Failed: Received empty response from Google." };
+        } catch (e: any) {
+            console.error("AI CONNECTION DEBUG:", e);
+            let msg = e.message || "Unknown connectivity error";
+            if (msg.includes("Failed to fetch")) msg = "Network Block: The request was blocked. Check browser extensions (AdBlock/uBlock) or VPN.";
+            return { success: false, message: `Service Error: ${msg}` };
+        }
+    }
+});
+
+/**
+ * OPENAI-COMPATIBLE (Ollama, llama.cpp server, vLLM, LM Studio or a hosted OpenAI-style API)
+ * Uses /chat/completions and /embeddings under the configured base URL. The server must allow
+ * this site's origin (e.g. OLLAMA_ORIGINS for Ollama).
+ */
+const chatMessages = (request: AIRequest) => [
+    ...(request.system ? [{ role: 'system', content: request.system }] : []),
+    ...(request.history || []).map(t => ({ role: t.role, content: t.text })),
+    { role: 'user', content: request.input }
+];
+
+// Text carried by one server-sent event line. Keep-alives, comments and lines that are not
+// valid JSON (some local servers send them mid-stream) carry none and are skipped.
+const streamDelta = (line: string): string => {
+    const payload = line.replace(/^data:\s*/, '').trim();
+    if (!line.startsWith('data:') || !payload || payload === '[DONE]') return '';
+    try {
+        return JSON.parse(payload).choices?.[0]?.delta?.content || '';
+    } catch {
+        return '';
+    }
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatConfig): AIProvider => {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}) },
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok) {
+            const detail = (await response.text().catch(() => '')).substring(0, 200);
+            throw new Error(`AI server returned ${response.status}${detail ? `: ${detail}` : ''}`);
+        }
+        return response;
+    };
+
+    const chatBody = (request: AIRequest) => ({
+        model: config.model,
+        messages: chatMessages(request),
+        ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {})
+    });
+
+    return {
+        id: 'openai',
+        label: 'OpenAI-compatible server',
+        model: config.model,
+        embeddingModel: config.embeddingModel || config.model,
+        async generate(request) {
+            const data = await (await post('/chat/completions', chatBody(request), request.signal)).json();
+            return data.choices?.[0]?.message?.content || '';
+        },
+        async *stream(request) {
+            const response = await post('/chat/completions', { ...chatBody(request), stream: true }, request.signal);
+            if (!response.body) throw new Error('AI server did not return a stream.');
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            // Server-sent events: `data: {json}` lines, ending with `data: [DONE]`
+            while (true) {
+                const { done, value } = await reader.read();
+                buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                // Once the stream ends, the last line is complete even without a trailing newline
+                buffer = done ? '' : lines.pop() || '';
+                for (const line of lines) {
+                    const delta = streamDelta(line);
+                    if (delta) yield delta;
+                }
+                if (done) break;
+            }
+        },
+        async embed(texts) {
+            const data = await (await post('/embeddings', { model: config.embeddingModel || config.model, input: texts })).json();
+            return [...(data.data || [])].sort((a: any, b: any) => a.index - b.index).map((d: any) => d.embedding);
+        },
+        async test() {
+            if (!baseUrl) return { success: false, message: 'Error: No server URL configured.' };
+            try {
+                const text = await this.generate({ input: 'ping', maxTokens: 5 });
+                return text
+                    ? { success: true, message: "Handshake Successful", steps: [`Reached ${baseUrl}`, `Model ${config.model} answered`] }
+                    : { success: false, message: `Handshake Failed: ${config.model} returned an empty response.` };
+            } catch (e: any) {
+                let msg = e.message || "Unknown connectivity error";
+                if (msg.includes("Failed to fetch")) msg = `Network Block: Could not reach ${baseUrl}. Check that the server is running and allows this site's origin (CORS).`;
+                return { success: false, message: `Service Error: ${msg}` };
+            }
+        }
+    };
+};
+
+/**
+ * MOCK (no network; deterministic output for demos, tests and offline development)
+ */
+const MOCK_DIMENSIONS = 256;
+
+const mockText = (request: AIRequest): string => {
+    const input = request.input.trim();
+    if (request.json) {
+        const firstLine = input.split('\n').find(l => l.trim())?.replace(/^#+\s*/, '').trim() || 'Untitled';
+        const tags = Array.from(new Set((input.match(/#(\w+)/g) || []).map(t => t.substring(1).toLowerCase())));
+        return JSON.stringify({ title: firstLine.substring(0, 60), formattedContent: input, category: 'General', tags });
+    }
+    // Cites every numbered source it was given, so chat citations can be exercised offline
+    const sources = Array.from(new Set(input.match(/^\[\d+\]/gm) || []));
+    const summary = input.replace(/\s+/g, ' ').substring(0, 160);
+    return `Mock response to: "${summary}${input.length > 160 ? '…' : ''}"${sources.length ? ` ${sources.join('')}` : ''}`;
+};
+
+const mockVector = (text: string): number[] => {
+    const vector = new Array(MOCK_DIMENSIONS).fill(0);
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).forEach(word => {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+        vector[(hash >>> 0) % MOCK_DIMENSIONS] += 1;
+    });
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / norm);
+};
+
+export const createMockProvider = (): AIProvider => ({
+    id: 'mock',
+    label: 'Mock (offline)',
+    model: 'mock',
+    embeddingModel: `mock-bow-${MOCK_DIMENSIONS}`,
+    async generate(request) { return mockText(request); },
+    async *stream(request) {
+        for (const word of mockText(request).split(/(?<= )/)) {
+            await new Promise(resolve => setTimeout(resolve, 15));
+            throwIfAborted(request.signal);
+            yield word;
+        }
+    },
+    async embed(texts) { return texts.map(mockVector); },
+    async test() { return { success: true, message: "Handshake Successful", steps: ["Mock provider", "No network used"] }; }
+});
+
+/**
+ * SELECTION
+ * The build default (VITE_AI_PROVIDER) applies until a browser saves its own choice in Settings.
+ */
+export const loadAISettings = (): AISettings => {
+    const defaults: AISettings = { provider: AI_PROVIDER, openai: { ...OPENAI_COMPAT_DEFAULTS } };
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+        return {
+            provider: ['gemini', 'openai', 'mock'].includes(stored.provider) ? stored.provider : defaults.provider,
+            openai: { ...defaults.openai, ...(stored.openai || {}) }
+        };
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    window.dispatchEvent(new CustomEvent(AI_PROVIDER_EVENT, { detail: settings }));
+};
+
+export const createAIProvider = (settings: AISettings): AIProvider => {
+    switch (settings.provider) {
+        case 'openai': return createOpenAICompatibleProvider(settings.openai);
+        case 'mock': return createMockProvider();
+        case 'gemini':
+        default: return createGeminiProvider();
+    }
+};
+
+export const getAIProvider = (): AIProvider => createAIProvider(loadAISettings());
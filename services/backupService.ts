@@ -0,0 +1,165 @@
+import { Note, Folder, NoteColor, NoteType, SmartFolderQuery } from '../types';
+
+/**
+ * JSON BACKUP FORMAT
+ * exportDataToFile writes `{ version, exportedAt, notes, folders }`. Older backups were a bare
+ * `Note[]`; both shapes are accepted. Every record is checked against the Note/Folder
+ * shape before anything is written, and malformed records are reported rather than imported.
+ */
+
+export const BACKUP_VERSION = 1;
+export const MAX_FIELD_LENGTH = 50000; // storageService truncates longer strings on save
+
+export interface BackupFile {
+    version: number;
+    exportedAt: number;
+    notes: Note[];
+    folders: Folder[];
+}
+
+export interface ParsedBackup {
+    notes: Note[];
+    folders: Folder[];
+    errors: string[]; // One entry per rejected record
+}
+
+export type ImportMode = 'merge' | 'replace' | 'skip';
+
+export interface BackupPreview {
+    notes: number;
+    folders: number;
+    trashed: number;
+    duplicateNotes: number; // Ids already present in the current vault
+    duplicateFolders: number;
+    invalid: number;
+}
+
+export const NOTE_TYPES: NoteType[] = ['quick', 'notebook', 'deep', 'code', 'project', 'contact', 'document'];
+export const NOTE_COLOR_VALUES = Object.values(NoteColor) as string[];
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+
+const validateNote = (raw: any, index: number): Note | string => {
+    if (!raw || typeof raw !== 'object') return `Note #${index + 1}: not an object`;
+    if (!isString(raw.id) || !raw.id) return `Note #${index + 1}: missing id`;
+    if (!isString(raw.title)) return `Note ${raw.id}: missing title`;
+    if (!isString(raw.content)) return `Note ${raw.id}: missing content`;
+    if (raw.type !== undefined && !NOTE_TYPES.includes(raw.type)) return `Note ${raw.id}: unknown type "${raw.type}"`;
+    if (raw.tags !== undefined && !isStringArray(raw.tags)) return `Note ${raw.id}: tags must be a list of strings`;
+    if (raw.createdAt !== undefined && !isNumber(raw.createdAt)) return `Note ${raw.id}: createdAt must be a timestamp`;
+    if (raw.attachments !== undefined && !isStringArray(raw.attachments)) return `Note ${raw.id}: attachments must be a list of strings`;
+    if (raw.projectData !== undefined && (typeof raw.projectData !== 'object' || raw.projectData === null)) return `Note ${raw.id}: invalid projectData`;
+
+    const { userId, ...rest } = raw;
+    return {
+        ...rest,
+        rawContent: isString(raw.rawContent) ? raw.rawContent : raw.content,
+        category: isString(raw.category) && raw.category ? raw.category : 'General',
+        tags: raw.tags || [],
+        color: NOTE_COLOR_VALUES.includes(raw.color) ? raw.color : NoteColor.Yellow,
+        createdAt: raw.createdAt ?? Date.now(),
+        type: raw.type || 'quick'
+    } as Note;
+};
+
+// Keeps only well-formed smart folder fields; anything else is dropped rather than rejected.
+const validateSmartQuery = (raw: any): SmartFolderQuery => Object.fromEntries(
+    (['tag', 'folderId', 'date', 'search'] as const)
+        .filter(key => isString(raw[key]) && raw[key])
+        .map(key => [key, raw[key]])
+        .concat(NOTE_TYPES.includes(raw.noteType) ? [['noteType', raw.noteType]] : [])
+);
+
+const validateFolder = (raw: any, index: number): Folder | string => {
+    if (!raw || typeof raw !== 'object') return `Folder #${index + 1}: not an object`;
+    if (!isString(raw.id) || !raw.id) return `Folder #${index + 1}: missing id`;
+    if (!isString(raw.name)) return `Folder ${raw.id}: missing name`;
+    return {
+        id: raw.id,
+        name: raw.name,
+        order: isNumber(raw.order) ? raw.order : index,
+        ...(isString(raw.parentId) && raw.parentId ? { parentId: raw.parentId } : {}),
+        ...(raw.smartQuery && typeof raw.smartQuery === 'object' ? { smartQuery: validateSmartQuery(raw.smartQuery) } : {})
+    };
+};
+
+const collect = <T>(items: unknown, validate: (raw: any, index: number) => T | string, errors: string[]): T[] => {
+    if (items === undefined) return [];
+    if (!Array.isArray(items)) {
+        errors.push('Expected a list of records.');
+        return [];
+    }
+    const seen = new Set<string>();
+    const valid: T[] = [];
+    items.forEach((raw, i) => {
+        const result = validate(raw, i);
+        if (typeof result === 'string') { errors.push(result); return; }
+        const id = (result as any).id as string;
+        if (seen.has(id)) { errors.push(`Duplicate id ${id} in backup; kept the first copy`); return; }
+        seen.add(id);
+        valid.push(result);
+    });
+    return valid;
+};
+
+export const createBackup = (notes: Note[], folders: Folder[]): BackupFile => ({
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    notes,
+    folders
+});
+
+/**
+ * Parses backup text. Throws on unreadable JSON or an unrecognised top-level shape;
+ * individual bad records are collected in `errors` instead.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON.');
+    }
+
+    const errors: string[] = [];
+    if (Array.isArray(data)) {
+        return { notes: collect(data, validateNote, errors), folders: [], errors };
+    }
+    if (data && typeof data === 'object' && (Array.isArray(data.notes) || Array.isArray(data.folders))) {
+        if (isNumber(data.version) && data.version > BACKUP_VERSION) {
+            throw new Error(`Backup version ${data.version} is newer than this app supports.`);
+        }
+        return {
+            notes: collect(data.notes, validateNote, errors),
+            folders: collect(data.folders, validateFolder, errors),
+            errors
+        };
+    }
+    throw new Error('This file does not look like a WeaveNote backup.');
+};
+
+export const previewBackup = (backup: ParsedBackup, existingNotes: Note[], existingFolders: Folder[]): BackupPreview => {
+    const noteIds = new Set(existingNotes.map(n => n.id));
+    const folderIds = new Set(existingFolders.map(f => f.id));
+    return {
+        notes: backup.notes.length,
+        folders: backup.folders.length,
+        trashed: backup.notes.filter(n => n.isDeleted).length,
+        duplicateNotes: backup.notes.filter(n => noteIds.has(n.id)).length,
+        duplicateFolders: backup.folders.filter(f => folderIds.has(f.id)).length,
+        invalid: backup.errors.length
+    };
+};
+
+/**
+ * Dry-run result from an external importer (Markdown vault, ENEX, Keep).
+ * `backup` is written with importBackup once the user confirms.
+ */
+export interface ImportReport {
+    source: string;
+    backup: ParsedBackup;
+    stats: { label: string; value: number }[];
+    warnings: string[];
+}
@@ -0,0 +1,67 @@
+import { Note, ChatSource } from '../types';
+import { SearchIndex, tokenize, searchNotes, parseSearchQuery } from './searchService';
+import { isSemanticSearchAvailable, semanticSearch } from './embeddingService';
+
+/**
+ * ASK YOUR NOTES
+ * A question is answered from the user's own notes: the closest notes are retrieved, numbered and
+ * sent along as context, and the answer cites them as [n]. Retrieval fuses keyword ranking with
+ * vector similarity when semantic search is on, so either kind of match can surface a note.
+ */
+
+export const CITE_PREFIX = '#cite/';
+const MAX_SOURCES = 6;
+const EXCERPT_LENGTH = 1500;
+const RANK_CONSTANT = 60; // Reciprocal rank fusion damping; the usual default
+
+// Question words that would otherwise dominate keyword ranking.
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i', 'in', 'is', 'it',
+    'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'about', 'any', 'our'
+]);
+
+const excerpt = (note: Note) => {
+    const tags = note.tags?.length ? `Tags: ${note.tags.map(t => `#${t}`).join(' ')}\n` : '';
+    const body = note.content.length > EXCERPT_LENGTH ? `${note.content.slice(0, EXCERPT_LENGTH)}…` : note.content;
+    return `${tags}${body}`;
+};
+
+// Any-term keyword ranking: each meaningful word is searched on its own and the scores add up.
+const keywordRank = (question: string, index: SearchIndex): string[] => {
+    const terms = Array.from(new Set(tokenize(question).filter(t => t.length > 1 && !STOPWORDS.has(t))));
+    const scores = new Map<string, number>();
+    terms.forEach(term => {
+        searchNotes(index, { ...parseSearchQuery(''), terms: [term] }).forEach(({ note, score }) => scores.set(note.id, (scores.get(note.id) || 0) + score));
+    });
+    return [...scores].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+};
+
+/**
+ * Picks the notes to answer from. Semantic failures (model not loaded, offline) fall back to
+ * keywords alone rather than failing the question.
+ */
+export const retrieveSources = async (question: string, notes: Note[], index: SearchIndex, userId: string | null): Promise<ChatSource[]> => {
+    const candidates = new Map(notes.filter(n => !n.isDeleted && !n.encrypted).map(n => [n.id, n]));
+    const rankings = [keywordRank(question, index)];
+    if (isSemanticSearchAvailable()) {
+        const semantic = await semanticSearch(question, [...candidates.values()], userId).catch(() => []);
+        rankings.push(semantic.map(r => r.note.id));
+    }
+    const fused = new Map<string, number>();
+    rankings.forEach(ids => ids.forEach((id, rank) => fused.set(id, (fused.get(id) || 0) + 1 / (RANK_CONSTANT + rank))));
+    return [...fused]
+        .filter(([id]) => candidates.has(id))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_SOURCES)
+        .map(([id], i) => {
+            const note = candidates.get(id)!;
+            return { index: i + 1, noteId: id, title: note.title || 'Untitled', excerpt: excerpt(note) };
+        });
+};
+
+// Turns [n] citations into links the chat renderer resolves to the cited note. Unknown numbers stay as text.
+export const linkCitations = (answer: string, sources: ChatSource[]) =>
+    answer.replace(/\[(\d+)\](?!\()/g, (match, n: string) => sources.some(s => s.index === Number(n)) ? `[[${n}]](${CITE_PREFIX}${n})` : match);
+
+export const sourceFromCiteHref = (href: string | undefined, sources: ChatSource[]): ChatSource | undefined =>
+    href?.startsWith(CITE_PREFIX) ? sources.find(s => s.index === Number(href.slice(CITE_PREFIX.length))) : undefined;
@@ -0,0 +1,159 @@
+/**
+ * COMMANDS & SHORTCUTS
+ * The command palette lists actions, notes, folders and tags, ranked by a fuzzy subsequence
+ * match. Global shortcuts map an action id to a key combo such as `Mod+K` (Mod = Cmd on macOS,
+ * Ctrl elsewhere). The map is stored per browser and can be changed in Settings; changes are
+ * announced with SHORTCUTS_EVENT so open views pick them up.
+ */
+
+export type CommandGroup = 'Actions' | 'Notes' | 'Folders' | 'Tags';
+
+export interface Command {
+    id: string;
+    label: string;
+    group: CommandGroup;
+    hint?: string; // Secondary text, e.g. a folder path or note category
+    keywords?: string; // Extra text matched but not shown
+    shortcut?: string;
+    run: () => void;
+}
+
+export type ShortcutAction =
+    | 'palette.open'
+    | 'search.focus'
+    | 'note.new'
+    | 'view.grid'
+    | 'view.mindmap'
+    | 'open.settings'
+    | 'open.analytics'
+    | 'open.trash'
+    | 'open.chat'
+    | 'theme.toggle';
+
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const SHORTCUTS_EVENT = 'weavenote_shortcuts_update';
+const SHORTCUTS_KEY = 'weavenote_shortcuts';
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+    'palette.open': 'Open command palette',
+    'search.focus': 'Focus search',
+    'note.new': 'New note',
+    'view.grid': 'Grid view',
+    'view.mindmap': 'Mind map view',
+    'open.settings': 'Open settings',
+    'open.analytics': 'Open analytics',
+    'open.trash': 'Open trash',
+    'open.chat': 'Ask your notes',
+    'theme.toggle': 'Toggle dark mode'
+};
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+    'palette.open': 'Mod+K',
+    'search.focus': '/',
+    'note.new': 'Alt+N',
+    'view.grid': 'Alt+1',
+    'view.mindmap': 'Alt+2',
+    'open.settings': 'Mod+,',
+    'open.analytics': 'Alt+A',
+    'open.trash': 'Alt+T',
+    'open.chat': 'Alt+Q',
+    'theme.toggle': 'Alt+D'
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'CapsLock', 'OS']);
+
+export const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const loadShortcuts = (): ShortcutMap => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SHORTCUTS_KEY) || '{}');
+        const valid = Object.entries(stored).filter(([id, combo]) => id in DEFAULT_SHORTCUTS && typeof combo === 'string');
+        return { ...DEFAULT_SHORTCUTS, ...Object.fromEntries(valid) };
+    } catch {
+        return { ...DEFAULT_SHORTCUTS };
+    }
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+    // Only overrides are stored so new defaults reach users who never customised them.
+    const overrides = Object.fromEntries(Object.entries(shortcuts).filter(([id, combo]) => DEFAULT_SHORTCUTS[id as ShortcutAction] !== combo));
+    localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(overrides));
+    window.dispatchEvent(new CustomEvent(SHORTCUTS_EVENT, { detail: shortcuts }));
+};
+
+/**
+ * Normalises a key event to a combo string. Letters and digits are read from `code`, so Alt+N
+ * stays `Alt+N` on macOS where the key itself produces "˜". Returns null for bare modifiers.
+ */
+export const comboFromEvent = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.has(e.key)) return null;
+    const fromCode = /^Key([A-Z])$|^Digit(\d)$/.exec(e.code);
+    const key = fromCode ? fromCode[1] || fromCode[2] : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    const parts = [
+        (isMac() ? e.metaKey : e.ctrlKey) && 'Mod',
+        e.altKey && 'Alt',
+        // Shift is part of symbols like "?" already, so it only counts for letters, digits and named keys
+        e.shiftKey && (fromCode || key.length > 1) && 'Shift',
+        key
+    ];
+    return parts.filter(Boolean).join('+');
+};
+
+export const matchShortcut = (e: KeyboardEvent, shortcuts: ShortcutMap): ShortcutAction | null => {
+    const combo = comboFromEvent(e);
+    if (!combo) return null;
+    const action = (Object.keys(shortcuts) as ShortcutAction[]).find(id => shortcuts[id] === combo);
+    if (!action) return null;
+    // Unmodified keys (like "/") must not fire while the user is typing
+    const target = e.target as HTMLElement | null;
+    const typing = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    return typing && !/^(Mod|Alt)\+/.test(combo) ? null : action;
+};
+
+export const findShortcutConflict = (shortcuts: ShortcutMap, action: ShortcutAction, combo: string): ShortcutAction | null =>
+    (Object.keys(shortcuts) as ShortcutAction[]).find(id => id !== action && shortcuts[id] === combo) || null;
+
+export const formatCombo = (combo: string) => {
+    if (!combo) return '';
+    const mac = isMac();
+    return combo.split('+').map(part => part === 'Mod' ? (mac ? '⌘' : 'Ctrl') : part === 'Alt' ? (mac ? '⌥' : 'Alt') : part === 'Shift' ? (mac ? '⇧' : 'Shift') : part).join(mac ? '' : '+');
+};
+
+/**
+ * Fuzzy subsequence score: every query character must appear in order. Consecutive runs and
+ * matches at word starts score higher; null means no match.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const q = query.toLowerCase().replace(/\s+/g, '');
+    if (!q) return 0;
+    const t = text.toLowerCase();
+    let score = 0;
+    let run = 0;
+    let from = 0;
+    for (const char of q) {
+        const at = t.indexOf(char, from);
+        if (at < 0) return null;
+        run = at === from ? run + 1 : 1;
+        const wordStart = at === 0 || /[\s\-_/.›#]/.test(t[at - 1]);
+        score += 1 + run * 2 + (wordStart ? 3 : 0);
+        from = at + 1;
+    }
+    // Prefer shorter texts when the match is otherwise equal
+    return score - t.length * 0.01;
+};
+
+export const rankCommands = (commands: Command[], query: string, limit = 50): Command[] => {
+    if (!query.trim()) return commands.slice(0, limit);
+    return commands
+        .map(command => {
+            const label = fuzzyScore(query, command.label);
+            const extra = fuzzyScore(query, `${command.hint || ''} ${command.keywords || ''}`);
+            const score = label !== null ? label * 2 : extra;
+            return { command, score };
+        })
+        .filter((r): r is { command: Command; score: number } => r.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(r => r.command);
+};
@@ -0,0 +1,100 @@
+import { Note } from '../types';
+
+/**
+ * CONCURRENT EDIT DETECTION
+ * A save carries the revision it was based on. If the stored note has moved past
+ * that revision, another device wrote in between and the adapter raises NoteConflictError
+ * instead of overwriting. The UI receives the conflict through CONFLICT_EVENT.
+ */
+
+export const CONFLICT_EVENT = 'weavenote_note_conflict';
+
+export class NoteConflictError extends Error {
+    readonly remote: Note;
+
+    constructor(remote: Note) {
+        super(`Note "${remote.title}" was changed on another device (revision ${remote.revision || 0}).`);
+        this.name = 'NoteConflictError';
+        this.remote = remote;
+    }
+}
+
+export interface NoteConflict {
+    base?: Note; // Last version both sides agreed on, when known
+    local: Note;
+    remote: Note;
+}
+
+export type MergeField = 'title' | 'content' | 'tags' | 'projectData';
+
+export const MERGE_FIELDS: MergeField[] = ['title', 'content', 'tags', 'projectData'];
+
+export interface MergeResult {
+    merged: Note;
+    conflicts: MergeField[]; // Fields changed on both sides that need a decision
+}
+
+export const isStaleWrite = (stored: Note | undefined, baseRevision: number | undefined): boolean => {
+    if (!stored || baseRevision === undefined) return false;
+    return (stored.revision || 0) > baseRevision;
+};
+
+// Last server-confirmed version of each note, used as the merge base.
+const syncedBases = new Map<string, Note>();
+
+export const rememberSyncedBase = (note: Note) => {
+    syncedBases.set(note.id, JSON.parse(JSON.stringify(note)));
+};
+
+export const reportConflict = (conflict: NoteConflict) => {
+    const detail = { ...conflict, base: conflict.base || syncedBases.get(conflict.local.id) };
+    window.dispatchEvent(new CustomEvent<NoteConflict>(CONFLICT_EVENT, { detail }));
+};
+
+// Copies one merge field from `source` onto `target`, keeping the field's type.
+export const takeField = <K extends MergeField>(target: Note, source: Note, field: K) => {
+    target[field] = source[field];
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Three-way set merge: tags added on either side are kept, tags removed on either side stay removed.
+// Without a base nothing is known to be removed, so both sides are unioned.
+const mergeTags = (base: string[] | undefined, local: string[], remote: string[]): string[] => {
+    const union = Array.from(new Set([...local, ...remote]));
+    if (!base) return union;
+    return union.filter(tag => !base.includes(tag) || (local.includes(tag) && remote.includes(tag)));
+};
+
+/**
+ * Three-way merge of the user-editable fields. A side that left a field untouched
+ * (relative to base) yields to the side that changed it; tags changed on both sides
+ * are merged as a set against the base. Anything else changed on both sides is reported in `conflicts` with
+ * the local value kept as the default.
+ */
+export const mergeNotes = ({ base, local, remote }: NoteConflict): MergeResult => {
+    const merged: Note = { ...remote, ...local };
+    const conflicts: MergeField[] = [];
+
+    MERGE_FIELDS.forEach(field => {
+        const localValue = local[field];
+        const remoteValue = remote[field];
+        if (sameValue(localValue, remoteValue)) return;
+
+        const localChanged = !base || !sameValue(base[field], localValue);
+        const remoteChanged = !base || !sameValue(base[field], remoteValue);
+
+        if (remoteChanged && !localChanged) {
+            takeField(merged, remote, field);
+        } else if (localChanged && remoteChanged) {
+            if (field === 'tags') {
+                merged.tags = mergeTags(base?.tags, local.tags || [], remote.tags || []);
+            } else {
+                conflicts.push(field);
+            }
+        }
+    });
+
+    merged.revision = remote.revision;
+    return { merged, conflicts };
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { Note, NoteColor } from '../types';
+import { createVaultConfig, decryptNote, encryptNote, VaultLockedError } from './cryptoService';
+
+const plainNote: Note = { id: 'n1', title: 'Secret', content: 'Keep this', rawContent: 'Keep this', category: 'General', tags: [], color: NoteColor.Yellow, createdAt: 1, type: 'quick' };
+
+describe('notes the current vault key cannot decrypt', () => {
+    let sealed: Note;
+    let unreadable: Note;
+
+    beforeAll(async () => {
+        vi.stubGlobal('window', new EventTarget());
+        await createVaultConfig('first passphrase');
+        sealed = await encryptNote(plainNote);
+        // A different vault key cannot open what the first one sealed
+        await createVaultConfig('second passphrase');
+        unreadable = await decryptNote(sealed);
+    });
+
+    it('stay sealed after decryption fails', () => {
+        expect(unreadable.encrypted).toEqual(sealed.encrypted);
+        expect(unreadable.title).not.toBe('Secret');
+    });
+
+    it('keep their ciphertext byte-identical on a metadata-only save', async () => {
+        const saved = await encryptNote({ ...unreadable, accessCount: 1 });
+        expect(saved.encrypted).toEqual(sealed.encrypted);
+        expect(saved.content).toBe('');
+        expect(saved.accessCount).toBe(1);
+    });
+
+    it('refuse saves that change the sealed fields', async () => {
+        await expect(encryptNote({ ...unreadable, content: 'Overwritten' })).rejects.toBeInstanceOf(VaultLockedError);
+    });
+});
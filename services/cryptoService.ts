@@ -0,0 +1,203 @@
+import { Note, NoteRevision, EncryptedPayload, VaultConfig } from '../types';
+import { StorageAdapter } from './storageAdapters';
+import { NoteConflictError } from './conflictService';
+
+/**
+ * END-TO-END ENCRYPTION (opt-in vault)
+ * A passphrase is stretched with PBKDF2 into an AES-GCM key that never leaves the browser.
+ * title, content, rawContent and projectData are sealed into `note.encrypted` before a note
+ * reaches any adapter, so Firestore, the local replica and the outbox only hold ciphertext.
+ * While a vault exists, AI features are disabled because they would need the plaintext.
+ */
+
+export const VAULT_EVENT = 'weavenote_vault_update';
+export const ENCRYPTED_TITLE = '🔒 Encrypted note';
+const UNREADABLE_CONTENT = 'This note could not be decrypted with the current vault key.';
+
+export type VaultState = 'disabled' | 'locked' | 'unlocked';
+
+export class VaultLockedError extends Error {
+    constructor() {
+        super('Unlock your encryption vault to edit this note.');
+        this.name = 'VaultLockedError';
+    }
+}
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'weavenote-vault-check';
+
+let vaultConfig: VaultConfig | null = null;
+let vaultKey: CryptoKey | null = null;
+
+export const getVaultState = (): VaultState => !vaultConfig ? 'disabled' : vaultKey ? 'unlocked' : 'locked';
+export const isVaultEnabled = () => vaultConfig !== null;
+
+const publish = () => {
+    window.dispatchEvent(new CustomEvent<VaultState>(VAULT_EVENT, { detail: getVaultState() }));
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const seal = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+    return { v: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+};
+
+const open = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    return JSON.parse(new TextDecoder().decode(plain));
+};
+
+/**
+ * Installs the vault config loaded for the current account (null = encryption off).
+ * Switching to a different vault drops any key held for the previous one.
+ */
+export const setVaultConfig = (config: VaultConfig | null) => {
+    if (JSON.stringify(config) !== JSON.stringify(vaultConfig)) vaultKey = null;
+    vaultConfig = config;
+    publish();
+};
+
+export const createVaultConfig = async (passphrase: string): Promise<VaultConfig> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const config: VaultConfig = {
+        version: 1,
+        kdf: 'PBKDF2-SHA256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        verifier: await seal(key, VERIFIER_TEXT),
+        createdAt: Date.now()
+    };
+    vaultConfig = config;
+    vaultKey = key;
+    publish();
+    return config;
+};
+
+/**
+ * Returns false for a wrong passphrase instead of throwing.
+ */
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+    if (!vaultConfig) return false;
+    const key = await deriveKey(passphrase, fromBase64(vaultConfig.salt), vaultConfig.iterations);
+    try {
+        if (await open<string>(key, vaultConfig.verifier) !== VERIFIER_TEXT) return false;
+    } catch {
+        return false;
+    }
+    vaultKey = key;
+    publish();
+    return true;
+};
+
+export const lockVault = () => {
+    vaultKey = null;
+    publish();
+};
+
+type SealedFields = Pick<Note, 'title' | 'content' | 'rawContent' | 'projectData'>;
+
+export const encryptNote = async (note: Note): Promise<Note> => {
+    if (!vaultConfig) {
+        if (note.encrypted) throw new VaultLockedError();
+        return note;
+    }
+    if (note.encrypted) {
+        // Still sealed (vault locked, or a key that cannot open it): metadata-only saves (color, folder,
+        // trash, access count) keep the existing ciphertext untouched instead of sealing the placeholder.
+        if (note.title !== ENCRYPTED_TITLE || (note.content !== '' && note.content !== UNREADABLE_CONTENT)) throw new VaultLockedError();
+        return { ...note, content: '', rawContent: '' };
+    }
+    if (!vaultKey) throw new VaultLockedError();
+    const { title, content, rawContent, projectData, encrypted, ...rest } = note;
+    const sealed: SealedFields = { title, content, rawContent, ...(projectData ? { projectData } : {}) };
+    return { ...rest, title: ENCRYPTED_TITLE, content: '', rawContent: '', encrypted: await seal(vaultKey, sealed) };
+};
+
+export const decryptNote = async (note: Note): Promise<Note> => {
+    if (!note.encrypted || !vaultKey) return note;
+    try {
+        const { encrypted, ...rest } = note;
+        return { ...rest, ...(await open<SealedFields>(vaultKey, encrypted)) };
+    } catch {
+        return { ...note, content: UNREADABLE_CONTENT };
+    }
+};
+
+const encryptRevision = async (revision: NoteRevision): Promise<NoteRevision> => {
+    if (!vaultConfig) return revision;
+    if (!vaultKey) throw new VaultLockedError();
+    const { title, content, projectData, encrypted, ...rest } = revision;
+    return { ...rest, title: ENCRYPTED_TITLE, content: '', encrypted: await seal(vaultKey, { title, content, ...(projectData ? { projectData } : {}) }) };
+};
+
+const decryptRevision = async (revision: NoteRevision): Promise<NoteRevision> => {
+    if (!revision.encrypted || !vaultKey) return revision;
+    try {
+        const { encrypted, ...rest } = revision;
+        return { ...rest, ...(await open<Pick<NoteRevision, 'title' | 'content' | 'projectData'>>(vaultKey, encrypted)) };
+    } catch {
+        return revision;
+    }
+};
+
+/**
+ * Wraps an adapter so everything below it only sees sealed notes and revisions.
+ * With no vault configured it is a pass-through.
+ */
+export const createEncryptingAdapter = (inner: StorageAdapter): StorageAdapter => ({
+    ...inner,
+    name: inner.name,
+
+    async loadNotes(userId) {
+        return Promise.all((await inner.loadNotes(userId)).map(decryptNote));
+    },
+
+    async saveNote(note, userId, options) {
+        try {
+            await inner.saveNote(await encryptNote(note), userId, options);
+        } catch (e) {
+            if (e instanceof NoteConflictError) throw new NoteConflictError(await decryptNote(e.remote));
+            throw e;
+        }
+    },
+
+    async saveNotes(notes, userId) {
+        await inner.saveNotes(await Promise.all(notes.map(encryptNote)), userId);
+    },
+
+    async appendRevision(revision, userId) {
+        await inner.appendRevision(await encryptRevision(revision), userId);
+    },
+
+    async loadRevisions(noteId, userId) {
+        return Promise.all((await inner.loadRevisions(noteId, userId)).map(decryptRevision));
+    },
+
+    subscribeNotes: inner.subscribeNotes && ((userId, onChange) => {
+        let queue = Promise.resolve();
+        return inner.subscribeNotes!(userId, changes => {
+            queue = queue.then(async () => onChange(await Promise.all(changes.map(async c =>
+                c.type === 'upsert' ? { ...c, record: await decryptNote(c.record) } : c))));
+        });
+    })
+});
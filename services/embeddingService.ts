@@ -0,0 +1,261 @@
+import { Note } from '../types';
+import { getAllLocal, putManyLocal, deleteLocal, replaceAllLocal } from './localDatabase';
+import { embedTexts } from './geminiService';
+import { getAIProvider } from './aiProviders';
+import { isVaultEnabled } from './cryptoService';
+
+/**
+ * SEMANTIC SEARCH
+ * Notes are embedded into vectors so search can match meaning rather than words. Two providers
+ * are available: the embedding model of the configured AI provider (Gemini, an OpenAI-compatible
+ * server or the mock) and a small sentence model run on the CPU in the browser (downloaded once,
+ * text never leaves the device).
+ * It is off until a provider is chosen in Settings, so nobody downloads a model or spends quota unasked.
+ * Vectors are cached per account in the local IndexedDB and refreshed whenever a note's text
+ * changes. With end-to-end encryption on, nothing is embedded and cached vectors are dropped,
+ * since vectors leak what the notes say.
+ */
+
+export type EmbeddingProviderId = 'local' | 'ai';
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbeddingProvider {
+    id: EmbeddingProviderId;
+    label: string;
+    model: string;
+    embed: (texts: string[], purpose: EmbeddingPurpose, userId: string | null) => Promise<number[][]>;
+}
+
+export interface EmbeddingStatus {
+    provider: EmbeddingProviderId | null;
+    indexed: number;
+    total: number;
+    isIndexing: boolean;
+    lastError?: string;
+}
+
+export interface SemanticResult {
+    note: Note;
+    score: number; // Cosine similarity, -1..1
+}
+
+interface StoredEmbedding {
+    id: string; // Note id
+    model: string;
+    hash: string; // Of the embedded text, to spot edits
+    vector: number[];
+}
+
+export const EMBEDDINGS_EVENT = 'weavenote_embeddings_update';
+const PROVIDER_KEY = 'weavenote_embedding_provider';
+const LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const BATCH_SIZE = 16;
+const MAX_TEXT_LENGTH = 2000; // Both models truncate long input anyway
+const MIN_QUERY_SCORE = 0.25;
+const MIN_RELATED_SCORE = 0.45;
+
+let extractor: Promise<(texts: string[]) => Promise<number[][]>> | null = null;
+
+// Loaded on first use so the model code and weights stay out of the main bundle.
+const loadLocalModel = () => {
+    if (!extractor) {
+        extractor = import('@huggingface/transformers')
+            .then(({ pipeline }) => pipeline('feature-extraction', LOCAL_MODEL, { dtype: 'q8' }))
+            .then(pipe => async (texts: string[]) => (await pipe(texts, { pooling: 'mean', normalize: true })).tolist() as number[][]);
+        extractor.catch(() => { extractor = null; });
+    }
+    return extractor;
+};
+
+export const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProvider> = {
+    local: {
+        id: 'local',
+        label: 'On-device model',
+        model: LOCAL_MODEL,
+        embed: async (texts) => (await loadLocalModel())(texts)
+    },
+    ai: {
+        id: 'ai',
+        label: 'AI provider embeddings',
+        // Follows the AI provider chosen in Settings, so switching it invalidates the cached vectors
+        get model() {
+            const provider = getAIProvider();
+            return `${provider.id}/${provider.embeddingModel}`;
+        },
+        embed: async (texts, purpose, userId) => {
+            // Same rule as the other AI features: guests have no quota to spend
+            if (!userId) throw new Error('Sign in to use AI provider embeddings.');
+            return embedTexts(texts, purpose, userId);
+        }
+    }
+};
+
+export const getEmbeddingProviderId = (): EmbeddingProviderId | null => {
+    const stored = localStorage.getItem(PROVIDER_KEY);
+    if (stored === 'gemini') return 'ai'; // Saved before other AI providers existed
+    return stored === 'local' || stored === 'ai' ? stored : null;
+};
+
+const activeProvider = (): EmbeddingProvider | null => {
+    const id = getEmbeddingProviderId();
+    return id ? EMBEDDING_PROVIDERS[id] : null;
+};
+const modelKey = (provider: EmbeddingProvider) => `${provider.id}:${provider.model}`;
+
+let vectors = new Map<string, StoredEmbedding>();
+let loadedOwner: string | null | undefined; // undefined until the cache is read
+let loadedModel: string | null = null;
+let status: EmbeddingStatus = { provider: getEmbeddingProviderId(), indexed: 0, total: 0, isIndexing: false };
+let running: Promise<void> | null = null;
+let queued: { notes: Note[]; userId: string | null } | null = null;
+
+export const getEmbeddingStatus = (): EmbeddingStatus => status;
+
+export const isSemanticSearchAvailable = () => getEmbeddingProviderId() !== null && !isVaultEnabled();
+
+const publishStatus = (update: Partial<EmbeddingStatus>) => {
+    status = { ...status, ...update, provider: getEmbeddingProviderId() };
+    window.dispatchEvent(new CustomEvent(EMBEDDINGS_EVENT, { detail: status }));
+};
+
+const embeddingText = (note: Note) =>
+    [note.title, (note.tags || []).map(t => `#${t}`).join(' '), note.category, note.content].filter(Boolean).join('\n').slice(0, MAX_TEXT_LENGTH);
+
+// FNV-1a; only needs to notice that the text changed.
+const hashText = (text: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    return (hash >>> 0).toString(36);
+};
+
+const cosine = (a: number[], b: number[]) => {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const isEmbeddable = (note: Note) => !note.isDeleted && !note.encrypted && embeddingText(note).trim().length > 0;
+
+const loadCache = async (userId: string | null, provider: EmbeddingProvider) => {
+    const model = modelKey(provider);
+    if (loadedOwner === userId && loadedModel === model) return;
+    const stored = await getAllLocal<StoredEmbedding>('embeddings', userId).catch(() => []);
+    vectors = new Map(stored.filter(e => e.model === model).map(e => [e.id, e]));
+    loadedOwner = userId;
+    loadedModel = model;
+};
+
+const clearCache = async (userId: string | null) => {
+    vectors = new Map();
+    loadedOwner = userId;
+    await replaceAllLocal('embeddings', [], userId).catch(() => {});
+};
+
+const runSync = async (notes: Note[], userId: string | null) => {
+    if (!isSemanticSearchAvailable()) {
+        if (loadedOwner !== userId || vectors.size > 0) await clearCache(userId);
+        publishStatus({ indexed: 0, total: 0, isIndexing: false, lastError: undefined });
+        return;
+    }
+    const provider = activeProvider()!;
+    await loadCache(userId, provider);
+    const model = modelKey(provider);
+    const live = notes.filter(isEmbeddable);
+    const liveIds = new Set(live.map(n => n.id));
+
+    const removed = [...vectors.keys()].filter(id => !liveIds.has(id));
+    removed.forEach(id => vectors.delete(id));
+    await Promise.all(removed.map(id => deleteLocal('embeddings', id, userId).catch(() => {})));
+
+    const stale = live
+        .map(note => ({ note, text: embeddingText(note) }))
+        .map(entry => ({ ...entry, hash: hashText(entry.text) }))
+        .filter(({ note, hash }) => vectors.get(note.id)?.hash !== hash);
+
+    publishStatus({ indexed: live.length - stale.length, total: live.length, isIndexing: stale.length > 0, lastError: undefined });
+    for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+        const batch = stale.slice(i, i + BATCH_SIZE);
+        try {
+            const embedded = await provider.embed(batch.map(b => b.text), 'document', userId);
+            const records: StoredEmbedding[] = batch.map((b, j) => ({ id: b.note.id, model, hash: b.hash, vector: embedded[j] }));
+            records.forEach(r => vectors.set(r.id, r));
+            await putManyLocal('embeddings', records, userId).catch(e => console.warn('Embedding cache write failed', e));
+            publishStatus({ indexed: status.indexed + batch.length });
+        } catch (e: any) {
+            // Left unindexed; the next sync retries them
+            publishStatus({ isIndexing: false, lastError: e.message || 'Embedding failed.' });
+            return;
+        }
+    }
+    publishStatus({ isIndexing: false });
+};
+
+/**
+ * Brings the vector cache in line with `notes`, embedding only new or edited notes.
+ * Calls made while a sync is running are coalesced into one follow-up run with the latest notes.
+ */
+export const syncEmbeddings = (notes: Note[], userId: string | null): Promise<void> => {
+    if (running) {
+        queued = { notes, userId };
+        return running;
+    }
+    running = runSync(notes, userId).finally(() => {
+        running = null;
+        const next = queued;
+        queued = null;
+        if (next) syncEmbeddings(next.notes, next.userId);
+    });
+    return running;
+};
+
+// `null` turns semantic search off and drops the cached vectors.
+export const setEmbeddingProvider = async (id: EmbeddingProviderId | null, notes: Note[], userId: string | null) => {
+    if (id === getEmbeddingProviderId()) return;
+    await running;
+    if (id) localStorage.setItem(PROVIDER_KEY, id);
+    else localStorage.removeItem(PROVIDER_KEY);
+    // Vectors from different models are not comparable, so start over
+    await clearCache(userId);
+    publishStatus({ indexed: 0, lastError: undefined });
+    await syncEmbeddings(notes, userId);
+};
+
+export const rebuildEmbeddings = async (notes: Note[], userId: string | null) => {
+    await running;
+    await clearCache(userId);
+    await syncEmbeddings(notes, userId);
+};
+
+// Notes ranked by closeness in meaning to the query. Notes not yet embedded are left out.
+export const semanticSearch = async (query: string, notes: Note[], userId: string | null, limit = 50): Promise<SemanticResult[]> => {
+    const provider = activeProvider();
+    if (!query.trim() || !provider || !isSemanticSearchAvailable()) return [];
+    await loadCache(userId, provider);
+    const [queryVector] = await provider.embed([query.trim()], 'query', userId);
+    return notes
+        .flatMap(note => {
+            const stored = vectors.get(note.id);
+            return stored ? [{ note, score: cosine(queryVector, stored.vector) }] : [];
+        })
+        .filter(r => r.score >= MIN_QUERY_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+// Notes closest in meaning to `note`, from the cached vectors only (no model call).
+export const getRelatedNotes = (note: Note, notes: Note[], limit = 5): SemanticResult[] => {
+    const source = vectors.get(note.id);
+    if (!source || !isSemanticSearchAvailable()) return [];
+    return notes
+        .flatMap(other => {
+            const stored = other.id !== note.id && !other.isDeleted ? vectors.get(other.id) : undefined;
+            return stored ? [{ note: other, score: cosine(source.vector, stored.vector) }] : [];
+        })
+        .filter(r => r.score >= MIN_RELATED_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
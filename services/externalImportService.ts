@@ -0,0 +1,274 @@
+import JSZip from 'jszip';
+import { Note, NoteColor } from '../types';
+import { ImportReport, MAX_FIELD_LENGTH } from './backupService';
+
+/**
+ * THIRD-PARTY IMPORTERS
+ * Evernote ENEX exports and Google Keep Takeout archives, converted to Notes.
+ * Checklists become `- [ ]` / `- [x]` lines so handleToggleCheckbox can flip them.
+ */
+
+const toDataUrl = (mime: string, base64: string) => `data:${mime};base64,${base64.replace(/\s+/g, '')}`;
+
+const buildNote = (fields: Partial<Note> & Pick<Note, 'title' | 'content'>): Note => ({
+    id: crypto.randomUUID(),
+    rawContent: fields.content,
+    category: 'Imported',
+    tags: [],
+    color: NoteColor.Yellow,
+    createdAt: Date.now(),
+    type: 'quick',
+    ...fields
+});
+
+const normaliseTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * EVERNOTE (ENEX)
+ */
+// ENEX timestamps look like 20240131T094500Z.
+const parseEnexDate = (value: string | null | undefined): number | undefined => {
+    const m = value?.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) : undefined;
+};
+
+// Converts ENML (Evernote's XHTML dialect) to Markdown.
+const enmlToMarkdown = (root: Node): string => {
+    const walk = (node: Node, listDepth: number): string => {
+        if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+        if (node.nodeType !== Node.ELEMENT_NODE) return '';
+        const el = node as Element;
+        const tag = el.tagName.toLowerCase();
+        const inner = () => Array.from(el.childNodes).map(child => walk(child, listDepth)).join('');
+
+        switch (tag) {
+            case 'br': return '\n';
+            // The HTML parser does not treat these as void elements, so following text can end up nested inside.
+            case 'en-todo': return (el.getAttribute('checked') === 'true' ? '- [x] ' : '- [ ] ') + inner();
+            case 'en-media': return `📎 (${el.getAttribute('type') || 'attachment'})` + inner();
+            case 'en-crypt': return '🔒 (encrypted text not imported)';
+            case 'b': case 'strong': { const t = inner().trim(); return t ? `**${t}**` : ''; }
+            case 'i': case 'em': { const t = inner().trim(); return t ? `*${t}*` : ''; }
+            case 's': case 'strike': case 'del': { const t = inner().trim(); return t ? `~~${t}~~` : ''; }
+            case 'code': return `\`${inner()}\``;
+            case 'a': {
+                const href = el.getAttribute('href');
+                const text = inner().trim() || href || '';
+                return href ? `[${text}](${href})` : text;
+            }
+            case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+                return `\n\n${'#'.repeat(Number(tag[1]))} ${inner().trim()}\n\n`;
+            case 'ul': case 'ol': {
+                const items = Array.from(el.children).filter(c => c.tagName.toLowerCase() === 'li');
+                const lines = items.map((li, i) => {
+                    const text = Array.from(li.childNodes).map(child => walk(child, listDepth + 1)).join('').trim();
+                    const marker = /^- \[[ x]\] /.test(text) ? '' : tag === 'ol' ? `${i + 1}. ` : '- ';
+                    return `${'  '.repeat(listDepth)}${marker}${text}`;
+                });
+                return `\n${lines.join('\n')}\n`;
+            }
+            case 'pre': return `\n\n\`\`\`\n${el.textContent || ''}\n\`\`\`\n\n`;
+            case 'blockquote': return `\n\n${inner().trim().split('\n').map(l => `> ${l}`).join('\n')}\n\n`;
+            case 'hr': return '\n\n---\n\n';
+            case 'table': {
+                const rows = Array.from(el.querySelectorAll('tr')).map(tr =>
+                    `| ${Array.from(tr.children).map(td => walk(td, listDepth).trim().replace(/\|/g, '\\|')).join(' | ')} |`);
+                if (rows.length === 0) return '';
+                const cols = rows[0].split(' | ').length;
+                rows.splice(1, 0, `|${' --- |'.repeat(cols)}`);
+                return `\n\n${rows.join('\n')}\n\n`;
+            }
+            case 'p': case 'div': return `\n${inner()}\n`;
+            default: return inner();
+        }
+    };
+    return walk(root, 0).replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export const parseEnexFile = async (file: Blob): Promise<ImportReport> => {
+    const doc = new DOMParser().parseFromString(await file.text(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || !doc.querySelector('en-export')) {
+        throw new Error('This file is not a valid Evernote .enex export.');
+    }
+
+    const notes: Note[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let attachmentCount = 0;
+    let checklistItems = 0;
+
+    Array.from(doc.getElementsByTagName('note')).forEach((noteEl, index) => {
+        const title = noteEl.querySelector('title')?.textContent?.trim() || `Untitled ${index + 1}`;
+        try {
+            const enml = noteEl.querySelector('content')?.textContent || '';
+            const enDoc = new DOMParser().parseFromString(enml, 'text/html');
+            const root = enDoc.querySelector('en-note') || enDoc.body;
+            const content = enmlToMarkdown(root);
+            checklistItems += (content.match(/- \[[ x]\] /g) || []).length;
+
+            const attachments: string[] = [];
+            Array.from(noteEl.getElementsByTagName('resource')).forEach(res => {
+                const data = res.querySelector('data')?.textContent || '';
+                const mime = res.querySelector('mime')?.textContent?.trim() || 'application/octet-stream';
+                const name = res.querySelector('file-name')?.textContent?.trim() || mime;
+                const url = toDataUrl(mime, data);
+                if (url.length > MAX_FIELD_LENGTH) {
+                    warnings.push(`${title}: attachment "${name}" is too large to import`);
+                    return;
+                }
+                attachments.push(url);
+            });
+            attachmentCount += attachments.length;
+
+            const created = parseEnexDate(noteEl.querySelector('created')?.textContent);
+            const updated = parseEnexDate(noteEl.querySelector('updated')?.textContent);
+            if (content.length > MAX_FIELD_LENGTH) warnings.push(`${title}: longer than ${MAX_FIELD_LENGTH} characters and will be truncated`);
+
+            notes.push(buildNote({
+                title,
+                content,
+                tags: Array.from(noteEl.getElementsByTagName('tag')).map(t => normaliseTag(t.textContent || '')).filter(Boolean),
+                createdAt: created ?? updated ?? Date.now(),
+                type: 'document',
+                category: 'Evernote',
+                ...(updated ? { updatedAt: updated } : {}),
+                ...(attachments.length > 0 ? { attachments } : {})
+            }));
+        } catch (e: any) {
+            errors.push(`${title}: ${e?.message || 'could not be converted'}`);
+        }
+    });
+
+    return {
+        source: 'Evernote',
+        backup: { notes, folders: [], errors },
+        stats: [
+            { label: 'Notes', value: notes.length },
+            { label: 'Tags', value: new Set(notes.flatMap(n => n.tags)).size },
+            { label: 'Attachments', value: attachmentCount },
+            { label: 'Checklist Items', value: checklistItems },
+            { label: 'Rejected', value: errors.length }
+        ],
+        warnings
+    };
+};
+
+/**
+ * GOOGLE KEEP (Takeout)
+ */
+const KEEP_COLORS: Record<string, NoteColor> = {
+    DEFAULT: NoteColor.Yellow,
+    RED: NoteColor.Red,
+    ORANGE: NoteColor.Orange,
+    YELLOW: NoteColor.Yellow,
+    GREEN: NoteColor.Green,
+    TEAL: NoteColor.Teal,
+    BLUE: NoteColor.Sky,
+    CERULEAN: NoteColor.Blue,
+    PURPLE: NoteColor.Purple,
+    PINK: NoteColor.Pink,
+    BROWN: NoteColor.Orange,
+    GRAY: NoteColor.Slate
+};
+
+interface KeepNote {
+    title?: string;
+    textContent?: string;
+    listContent?: { text: string; isChecked: boolean }[];
+    labels?: { name: string }[];
+    color?: string;
+    isPinned?: boolean;
+    isArchived?: boolean;
+    isTrashed?: boolean;
+    createdTimestampUsec?: number;
+    userEditedTimestampUsec?: number;
+    annotations?: { url?: string; title?: string }[];
+    attachments?: { filePath: string; mimetype: string }[];
+}
+
+const isKeepNote = (data: any): data is KeepNote =>
+    !!data && typeof data === 'object' && ('textContent' in data || 'listContent' in data) && 'userEditedTimestampUsec' in data;
+
+export const parseKeepTakeout = async (file: Blob): Promise<ImportReport> => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const sources: { name: string; text: string }[] = [];
+    const files = new Map<string, JSZip.JSZipObject>();
+
+    const isZip = file instanceof File ? /\.zip$/i.test(file.name) : true;
+    if (isZip) {
+        const zip = await JSZip.loadAsync(file);
+        for (const entry of Object.values(zip.files)) {
+            if (entry.dir) continue;
+            files.set(entry.name.split('/').pop()!, entry);
+            if (/\.json$/i.test(entry.name)) sources.push({ name: entry.name, text: await entry.async('string') });
+        }
+    } else {
+        sources.push({ name: (file as File).name, text: await file.text() });
+    }
+
+    const notes: Note[] = [];
+    let pinned = 0;
+    let checklistItems = 0;
+    let attachmentCount = 0;
+
+    for (const { name, text } of sources) {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            errors.push(`${name}: not valid JSON`);
+            continue;
+        }
+        if (!isKeepNote(data)) continue; // Takeout also ships Labels.txt-style metadata files
+
+        const checklist = (data.listContent || []).map(item => `- [${item.isChecked ? 'x' : ' '}] ${item.text}`);
+        checklistItems += checklist.length;
+        const links = (data.annotations || []).filter(a => a.url).map(a => `- [${a.title || a.url}](${a.url})`);
+        const content = [data.textContent || '', checklist.join('\n'), links.join('\n')].filter(Boolean).join('\n\n');
+
+        const attachments: string[] = [];
+        for (const att of data.attachments || []) {
+            const entry = files.get(att.filePath.split('/').pop()!);
+            if (!entry) { warnings.push(`${name}: attachment ${att.filePath} was not found in the archive`); continue; }
+            const url = toDataUrl(att.mimetype, await entry.async('base64'));
+            if (url.length > MAX_FIELD_LENGTH) { warnings.push(`${name}: attachment ${att.filePath} is too large to import`); continue; }
+            attachments.push(url);
+        }
+        attachmentCount += attachments.length;
+
+        const tags = (data.labels || []).map(l => normaliseTag(l.name)).filter(Boolean);
+        if (data.isPinned) { tags.push('pinned'); pinned++; }
+        if (data.isArchived) tags.push('archived');
+
+        const createdAt = Math.floor((data.createdTimestampUsec || data.userEditedTimestampUsec || Date.now() * 1000) / 1000);
+        notes.push(buildNote({
+            title: data.title?.trim() || (data.textContent || checklist[0] || 'Untitled').split('\n')[0].substring(0, 60),
+            content,
+            tags: Array.from(new Set(tags)),
+            color: KEEP_COLORS[data.color || 'DEFAULT'] || NoteColor.Yellow,
+            createdAt,
+            updatedAt: data.userEditedTimestampUsec ? Math.floor(data.userEditedTimestampUsec / 1000) : undefined,
+            category: 'Keep',
+            ...(attachments.length > 0 ? { attachments } : {}),
+            ...(data.isTrashed ? { isDeleted: true, deletedAt: Date.now() } : {})
+        }));
+    }
+
+    if (sources.length > 0 && notes.length === 0 && errors.length === 0) {
+        throw new Error('No Keep notes were found. Select the Takeout ZIP or the JSON files from its Keep folder.');
+    }
+
+    return {
+        source: 'Google Keep',
+        backup: { notes, folders: [], errors },
+        stats: [
+            { label: 'Notes', value: notes.length },
+            { label: 'Pinned', value: pinned },
+            { label: 'Checklist Items', value: checklistItems },
+            { label: 'Attachments', value: attachmentCount },
+            { label: 'Rejected', value: errors.length }
+        ],
+        warnings
+    };
+};
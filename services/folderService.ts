@@ -0,0 +1,114 @@
+import { Note, Folder } from '../types';
+
+/**
+ * FOLDER HIERARCHY
+ * Folders form a tree through `parentId` (missing = top level); `order` sorts siblings.
+ * A parentId that points at a missing folder, or that would form a cycle, is treated as top level
+ * so a half-synced or hand-edited vault still renders.
+ * Smart folders (saved searches) are stored with the folders but never appear in the tree.
+ */
+
+export interface FolderNode {
+    folder: Folder;
+    depth: number;
+    children: FolderNode[];
+}
+
+export type FolderDropPosition = 'before' | 'inside' | 'after';
+
+const byOrder = (a: Folder, b: Folder) => a.order - b.order || a.name.localeCompare(b.name);
+
+export const isSmartFolder = (folder: Folder) => !!folder.smartQuery;
+
+// Walks up from a folder; stops at a missing parent or a repeated id.
+export const getFolderPath = (folderId: string | undefined, folders: Folder[]): Folder[] => {
+    const byId = new Map(folders.map(f => [f.id, f]));
+    const path: Folder[] = [];
+    const seen = new Set<string>();
+    let current = folderId ? byId.get(folderId) : undefined;
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+};
+
+const effectiveParentId = (folder: Folder, folders: Folder[]): string | undefined => {
+    if (!folder.parentId) return undefined;
+    const path = getFolderPath(folder.parentId, folders);
+    // A broken chain or a cycle back to this folder puts it at the top level.
+    return path.length === 0 || path.some(f => f.id === folder.id) ? undefined : folder.parentId;
+};
+
+export const buildFolderTree = (folders: Folder[]): FolderNode[] => {
+    const childrenOf = new Map<string | undefined, Folder[]>();
+    folders.filter(f => !isSmartFolder(f)).forEach(f => {
+        const parent = effectiveParentId(f, folders);
+        childrenOf.set(parent, [...(childrenOf.get(parent) || []), f]);
+    });
+    const build = (parentId: string | undefined, depth: number): FolderNode[] =>
+        (childrenOf.get(parentId) || []).sort(byOrder).map(folder => ({ folder, depth, children: build(folder.id, depth + 1) }));
+    return build(undefined, 0);
+};
+
+// Depth-first order, handy for flat pickers and exports.
+export const flattenFolderTree = (nodes: FolderNode[]): FolderNode[] =>
+    nodes.flatMap(node => [node, ...flattenFolderTree(node.children)]);
+
+// The folder itself plus everything nested under it.
+export const getDescendantIds = (folderId: string, folders: Folder[]): Set<string> => {
+    const ids = new Set<string>([folderId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        folders.forEach(f => {
+            if (!ids.has(f.id) && f.parentId && ids.has(f.parentId) && effectiveParentId(f, folders)) {
+                ids.add(f.id);
+                grew = true;
+            }
+        });
+    }
+    return ids;
+};
+
+// Note counts per folder including every subfolder.
+export const countNotesRecursive = (notes: Note[], folders: Folder[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    notes.forEach(note => {
+        if (!note.folderId) return;
+        getFolderPath(note.folderId, folders).forEach(f => counts.set(f.id, (counts.get(f.id) || 0) + 1));
+    });
+    return counts;
+};
+
+export const canMoveFolder = (folderId: string, newParentId: string | undefined, folders: Folder[]) =>
+    !newParentId || !getDescendantIds(folderId, folders).has(newParentId);
+
+/**
+ * Moves a folder relative to a target folder (or to the end of the top level when targetId is null)
+ * and renumbers `order` for the affected sibling group. Returns only the folders that changed.
+ */
+export const moveFolder = (folders: Folder[], folderId: string, targetId: string | null, position: FolderDropPosition): Folder[] => {
+    const moving = folders.find(f => f.id === folderId);
+    const target = targetId ? folders.find(f => f.id === targetId) : undefined;
+    if (!moving || folderId === targetId) return [];
+
+    const newParentId = !target ? undefined : position === 'inside' ? target.id : effectiveParentId(target, folders);
+    if (!canMoveFolder(folderId, newParentId, folders)) return [];
+
+    const siblings = folders
+        .filter(f => f.id !== folderId && !isSmartFolder(f) && effectiveParentId(f, folders) === newParentId)
+        .sort(byOrder);
+    const index = !target || position === 'inside'
+        ? siblings.length
+        : siblings.findIndex(f => f.id === target.id) + (position === 'after' ? 1 : 0);
+    siblings.splice(index, 0, { ...moving, parentId: newParentId });
+
+    return siblings
+        .map((f, order) => ({ ...f, order }))
+        .filter(f => {
+            const before = folders.find(o => o.id === f.id)!;
+            return before.order !== f.order || before.parentId !== f.parentId;
+        });
+};
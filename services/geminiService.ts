@@ -1,41 +1,12 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { ProcessedNoteData, NoteType } from "../types";
+import { ProcessedNoteData, NoteType, ChatSource, ChatMessage } from "../types";
 import { incrementUserAIUsage } from "./authService";
+import { isVaultEnabled } from "./cryptoService";
 import { logTraffic } from "./trafficService";
+import { getAIProvider, AIProvider, AIRequest, EmbedPurpose } from "./aiProviders";
 
 export const DAILY_REQUEST_LIMIT = 800;
 
-/**
- * Key Discovery Engine
- * Scans all possible environment variable names to find a valid Gemini Key.
- */
-const getBestApiKey = () => {
-    const candidates = [
-        { name: 'API_KEY', val: process.env.API_KEY },
-        { name: 'VITE_API_KEY', val: process.env.VITE_API_KEY },
-        { name: 'VITE_KEY', val: (process.env as any).VITE_KEY }
-    ];
-
-    // 1. Clean and filter candidates
-    const processed = candidates.map(c => {
-        const raw = (c.val || "").trim().replace(/^["']|["']$/g, "");
-        return {
-            name: c.name,
-            value: raw,
-            isPlaceholder: raw.toUpperCase().includes("GEMI") || raw.length < 10,
-            isValid: raw.startsWith("AIza")
-        };
-    });
-
-    // 2. Return the first valid 'AIza' key found
-    const winner = processed.find(p => p.isValid);
-    if (winner) return winner.value;
-
-    // 3. Fallback: if no valid key, return the best looking one for error reporting
-    return (processed.find(p => p.value !== "") || { value: "" }).value;
-};
-
 const getUsageKey = () => `ideaweaver_usage_${new Date().toISOString().split('T')[0]}`;
 
 export const getDailyUsage = (): number => parseInt(localStorage.getItem(getUsageKey()) || '0', 10);
@@ -59,108 +30,219 @@ const logAIUsage = (username: string, action: string, details: string) => {
     localStorage.setItem('ideaweaver_ai_logs', JSON.stringify(logs.slice(0, 100)));
 };
 
-export const cleanAndFormatIngestedText = async (rawText: string, filename: string, username: string, userId?: string): Promise<ProcessedNoteData> => {
-  const apiKey = getBestApiKey();
-  if (!apiKey || !apiKey.startsWith("AIza")) throw new Error("Infrastructure missing valid Gemini API Key.");
+// Encrypted vaults never send plaintext to the model.
+const assertAIAvailable = () => {
+  if (isVaultEnabled()) throw new Error("AI features are disabled while end-to-end encryption is on.");
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-  const prompt = `Format this document extracted text into structured Markdown. Identify title, category, tags. Return JSON with keys: "title", "formattedContent", "category", "tags".\n\nText:\n${rawText.substring(0, 10000)}`;
+// Models sometimes wrap JSON in a Markdown code fence even when asked not to.
+const parseJSON = <T>(text: string): T => JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')) as T;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview', 
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
+// Traffic endpoints read e.g. "openai:llama3.1/organize" so the monitor shows which backend served a call.
+const endpoint = (provider: AIProvider, route: string, model = provider.model) => `${provider.id}:${model}/${route}`;
 
-    const parsed = JSON.parse(response.text) as ProcessedNoteData;
+export const cleanAndFormatIngestedText = async (rawText: string, filename: string, username: string, userId?: string): Promise<ProcessedNoteData> => {
+  assertAIAvailable();
+  const provider = getAIProvider();
+  const request: AIRequest = {
+    system: `Format this document extracted text into structured Markdown. Identify title, category, tags. Return JSON with keys: "title", "formattedContent", "category", "tags".`,
+    input: rawText.substring(0, 10000),
+    json: true
+  };
+
+  try {
+    const parsed = parseJSON<ProcessedNoteData>(await provider.generate(request));
     incrementUsage(userId);
     logAIUsage(username, 'DOCUMENT_INGEST', `Processed ${filename}`);
-    logTraffic('POST', 'gemini-3-flash/ingest', 200, rawText.length);
+    logTraffic('POST', endpoint(provider, 'ingest'), 200, rawText.length);
     return parsed;
   } catch (error: any) {
     logError('CLEAN_TEXT', error);
-    logTraffic('POST', 'gemini-3-flash/ingest', 500, rawText.length);
+    logTraffic('POST', endpoint(provider, 'ingest'), 500, rawText.length);
     throw error;
   }
 };
 
+const organizeRequest = (text: string): AIRequest => ({
+  system: `Organize this user input into a structured note. Return strictly JSON with keys: "title", "formattedContent", "category", "tags". Keep any [[Note Title]] links exactly as written.`,
+  input: text,
+  json: true
+});
+
 export const processNoteWithAI = async (text: string, existingCategories: string[], noteType: NoteType, username: string, userId?: string): Promise<ProcessedNoteData> => {
-  const apiKey = getBestApiKey();
-  if (!apiKey || !apiKey.startsWith("AIza")) throw new Error("Infrastructure missing valid Gemini API Key.");
-  
-  const ai = new GoogleGenAI({ apiKey });
-  const prompt = `Organize this user input into a structured note. Return strictly JSON with keys: "title", "formattedContent", "category", "tags".\n\nInput: ${text}`;
+  assertAIAvailable();
+  const provider = getAIProvider();
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: { responseMimeType: 'application/json' }
-    });
-
-    const parsed = JSON.parse(response.text) as ProcessedNoteData;
+    const parsed = parseJSON<ProcessedNoteData>(await provider.generate(organizeRequest(text)));
     incrementUsage(userId);
     logAIUsage(username, 'NOTE_ORGANIZE', `Organized ${noteType} entry`);
-    logTraffic('POST', 'gemini-3-flash/organize', 200, text.length);
+    logTraffic('POST', endpoint(provider, 'organize'), 200, text.length);
     return parsed;
   } catch (error: any) {
     logError('PROCESS_NOTE', error);
-    logTraffic('POST', 'gemini-3-flash/organize', 500, text.length);
+    logTraffic('POST', endpoint(provider, 'organize'), 500, text.length);
     throw error;
   }
 };
 
-export const expandNoteContent = async (content: string, username: string, userId?: string) => {
-    const apiKey = getBestApiKey();
-    if (!apiKey || !apiKey.startsWith("AIza")) return null;
-    const ai = new GoogleGenAI({ apiKey });
-    try {
-      const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: `Deep dive expand on this: ${content}`,
-      });
-      incrementUsage(userId);
-      logAIUsage(username, 'DEEP_DIVE', `Expanded content block`);
-      return response.text || null;
-    } catch (error) {
-      logError('EXPAND_NOTE', error);
-      return null;
+/**
+ * STREAMING
+ * These yield the result so far after every chunk, so callers can render it as it grows. Aborting
+ * `signal` ends the iteration quietly after the last chunk received: the caller keeps what it has
+ * and can check `signal.aborted` to tell a stop from a finished response.
+ */
+const STOPPED_STATUS = 499; // Client closed request
+
+async function* accumulate(provider: AIProvider, request: AIRequest): AsyncGenerator<string, string> {
+  let text = '';
+  try {
+    for await (const chunk of provider.stream(request)) {
+      text += chunk;
+      yield text;
+    }
+  } catch (error) {
+    if (!request.signal?.aborted) throw error;
+  }
+  return text;
+}
+
+// Reads a string field of a JSON object that is still arriving, e.g. `{"title": "Trip", "formattedContent": "Day 1\n- Pa`.
+const readPartialString = (json: string, key: string): string | undefined => {
+  const start = json.match(new RegExp(`"${key}"\\s*:\\s*"`));
+  if (!start) return undefined;
+  let value = '';
+  for (let i = start.index! + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
     }
+    const next = json[i + 1];
+    if (next === undefined) break; // Escape split across chunks
+    if (next === 'u') {
+      const hex = json.substring(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+      i++;
+    }
+  }
+  return value;
 };
 
-export const runConnectivityTest = async () => {
-  const apiKey = getBestApiKey();
-  
-  if (!apiKey) return { success: false, message: "Error: No API keys found in environment variables (Checked: API_KEY, VITE_API_KEY, VITE_KEY)." };
-  
-  if (!apiKey.startsWith("AIza")) {
-      if (apiKey.toUpperCase().includes("GEMI")) {
-          return { success: false, message: "Critical: You have a placeholder string like 'GEMINI_API_KEY' in your environment variables. Replace it with the actual alphanumeric key from Google AI Studio." };
-      }
-      return { success: false, message: `Invalid Key Format: Key starts with '${apiKey.substring(0,4)}' but must start with 'AIza'. Check for leading spaces or quotes.` };
-  }
+const parsePartialNote = (json: string): Partial<ProcessedNoteData> => {
+  const tags = json.match(/"tags"\s*:\s*\[([^\]]*)\]/);
+  return {
+    title: readPartialString(json, 'title'),
+    formattedContent: readPartialString(json, 'formattedContent'),
+    category: readPartialString(json, 'category'),
+    ...(tags ? { tags: (tags[1].match(/"(?:[^"\\]|\\.)*"/g) || []).map(t => JSON.parse(t) as string) } : {})
+  };
+};
 
+/**
+ * Streaming counterpart of processNoteWithAI. Yields the fields parsed so far and, once the response
+ * is complete, the fully parsed note. A stopped run yields nothing further.
+ */
+export async function* streamProcessNoteWithAI(
+  text: string, existingCategories: string[], noteType: NoteType, username: string, userId?: string, signal?: AbortSignal
+): AsyncGenerator<Partial<ProcessedNoteData>> {
+  assertAIAvailable();
+  const provider = getAIProvider();
+  let raw = '';
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({ 
-        model: 'gemini-3-flash-preview', 
-        contents: 'ping',
-        config: { maxOutputTokens: 5 }
-    });
-    
-    if (response && response.text) {
-        return { success: true, message: "Handshake Successful", steps: ["Validated AIza prefix", "Connection established", "Tokens verified"] };
+    for await (raw of accumulate(provider, { ...organizeRequest(text), signal })) yield parsePartialNote(raw);
+    incrementUsage(userId);
+    if (signal?.aborted) {
+      logAIUsage(username, 'NOTE_ORGANIZE', `Stopped ${noteType} entry after ${raw.length} chars`);
+      logTraffic('POST', endpoint(provider, 'organize'), STOPPED_STATUS, text.length);
+      return;
     }
-    return { success: false, message: "Handshake Failed: Received empty response from Google." };
-  } catch (e: any) {
-    console.error("AI CONNECTION DEBUG:", e);
-    let msg = e.message || "Unknown connectivity error";
-    if (msg.includes("Failed to fetch")) msg = "Network Block: The request was blocked. Check browser extensions (AdBlock/uBlock) or VPN.";
-    return { success: false, message: `Service Error: ${msg}` };
+    const parsed = parseJSON<ProcessedNoteData>(raw);
+    logAIUsage(username, 'NOTE_ORGANIZE', `Organized ${noteType} entry`);
+    logTraffic('POST', endpoint(provider, 'organize'), 200, text.length);
+    yield parsed;
+  } catch (error: any) {
+    logError('PROCESS_NOTE', error);
+    logTraffic('POST', endpoint(provider, 'organize'), 500, text.length);
+    throw error;
+  }
+}
+
+// Yields the expansion so far; it is meant to be appended to the note.
+export async function* streamExpandNoteContent(content: string, username: string, userId?: string, signal?: AbortSignal): AsyncGenerator<string> {
+  assertAIAvailable();
+  const provider = getAIProvider();
+  try {
+    const text = yield* accumulate(provider, { input: `Deep dive expand on this: ${content}`, signal });
+    incrementUsage(userId);
+    logAIUsage(username, 'DEEP_DIVE', signal?.aborted ? `Expansion stopped after ${text.length} chars` : `Expanded content block`);
+    logTraffic('POST', endpoint(provider, 'expand'), signal?.aborted ? STOPPED_STATUS : 200, content.length);
+  } catch (error: any) {
+    logError('EXPAND_NOTE', error);
+    logTraffic('POST', endpoint(provider, 'expand'), 500, content.length);
+    throw error;
+  }
+}
+
+const CHAT_HISTORY_TURNS = 6;
+
+/**
+ * Answers a question from the given notes only, streaming the growing answer to `onText`.
+ * Sources are numbered so the model can cite them inline as [1], [2].
+ */
+export const answerFromNotes = async (
+  question: string, sources: ChatSource[], history: ChatMessage[], username: string, userId: string | undefined, onText: (answer: string) => void
+): Promise<string> => {
+  assertAIAvailable();
+  const provider = getAIProvider();
+  const context = sources.map(s => `[${s.index}] ${s.title}\n${s.excerpt}`).join('\n\n---\n\n');
+  const request: AIRequest = {
+    system: "You answer questions using only the user's notes provided with each question. " +
+      "Cite the notes you rely on inline with their bracketed numbers, e.g. [1] or [2][3]. " +
+      "If the notes do not contain the answer, say so plainly instead of guessing. Answer in concise Markdown.",
+    history: history.filter(m => m.text && !m.error).slice(-CHAT_HISTORY_TURNS).map(m => ({ role: m.role, text: m.text })),
+    input: `Notes:\n\n${context || '(no matching notes)'}\n\nQuestion: ${question}`
+  };
+
+  try {
+    let answer = '';
+    for await (answer of accumulate(provider, request)) onText(answer);
+    incrementUsage(userId);
+    logAIUsage(username, 'ASK_NOTES', `Q: ${question.substring(0, 120)} | ${sources.length} sources | ${answer.length} chars`);
+    logTraffic('POST', endpoint(provider, 'ask'), 200, question.length + context.length);
+    return answer;
+  } catch (error: any) {
+    logError('ASK_NOTES', error);
+    logTraffic('POST', endpoint(provider, 'ask'), 500, question.length + context.length);
+    throw error;
   }
 };
 
+// One request per batch; documents and queries are embedded with matching retrieval task types where the provider supports them.
+export const embedTexts = async (texts: string[], purpose: EmbedPurpose, userId?: string): Promise<number[][]> => {
+  assertAIAvailable();
+  const provider = getAIProvider();
+  const size = texts.reduce((sum, t) => sum + t.length, 0);
+  try {
+    const vectors = await provider.embed(texts, purpose);
+    if (vectors.length !== texts.length) throw new Error("Embedding response did not match the request.");
+    incrementUsage(userId);
+    logTraffic('POST', endpoint(provider, 'embed', provider.embeddingModel), 200, size);
+    return vectors;
+  } catch (error: any) {
+    logError('EMBED_TEXT', error);
+    logTraffic('POST', endpoint(provider, 'embed', provider.embeddingModel), 500, size);
+    throw error;
+  }
+};
+
+export const runConnectivityTest = () => getAIProvider().test();
+
 export const getAIUsageLogs = () => JSON.parse(localStorage.getItem('ideaweaver_ai_logs') || '[]');
 export const getErrorLogs = () => JSON.parse(localStorage.getItem('ideaweaver_error_logs') || '[]');
 export const clearErrorLogs = () => localStorage.removeItem('ideaweaver_error_logs');
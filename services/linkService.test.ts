@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { Note } from '../types';
+import { extractLinkTitles, getBacklinks, linkifyNoteLinks, renameNoteLinks, resolveNoteLink } from './linkService';
+
+const note = (id: string, title: string, content = ''): Note => ({ id, title, content, rawContent: content, createdAt: 1 } as Note);
+
+describe('wikilinks with a heading or alias', () => {
+    const target = note('t', 'Project Plan');
+    const source = note('s', 'Index', 'See [[Project Plan|the plan]], [[project plan#Goals]] and [[Project Plan#Goals|goals]].');
+
+    it('extracts only the title part', () => {
+        expect(extractLinkTitles(source.content)).toEqual(['Project Plan', 'project plan', 'Project Plan']);
+        expect(resolveNoteLink(extractLinkTitles(source.content)[2], [target, source])).toBe(target);
+    });
+
+    it('counts them as backlinks', () => {
+        expect(getBacklinks(target, [target, source])).toEqual([source]);
+    });
+
+    it('displays the alias, else the target as written', () => {
+        expect(linkifyNoteLinks('[[Project Plan|the plan]] [[Project Plan#Goals]]'))
+            .toBe('[the plan](#note/Project%20Plan) [Project Plan#Goals](#note/Project%20Plan)');
+    });
+
+    it('keeps the heading and alias when the note is renamed', () => {
+        const renamed = { ...target, title: 'Roadmap' };
+        const [updated] = renameNoteLinks([renamed, source], renamed, 'Project Plan');
+        expect(updated.content).toBe('See [[Roadmap|the plan]], [[Roadmap#Goals]] and [[Roadmap#Goals|goals]].');
+    });
+
+    it('ignores links with no title', () => {
+        expect(extractLinkTitles('[[#Goals]] [[|alias]]')).toEqual([]);
+        expect(linkifyNoteLinks('[[|alias]]')).toBe('[[|alias]]');
+    });
+});
@@ -0,0 +1,133 @@
+import { Note } from '../types';
+
+/**
+ * NOTE LINKS
+ * `[[Note Title]]` in content links to the live note with that title (case-insensitive).
+ * `[[Note Title#Heading]]` and `[[Note Title|alias]]` link to the same note; only the part
+ * before the first `#` or `|` names it, and the rest is kept as written.
+ * Links are stored by title so content stays readable; renaming a note rewrites the links
+ * that point at it. Sealed vault notes cannot be read, so they neither link nor get rewritten.
+ */
+
+const WIKILINK_PATTERN = /\[\[([^\[\]\n]+?)\]\]/g;
+// Fenced blocks and inline code spans, which are left untouched.
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g;
+
+export const NOTE_LINK_PREFIX = '#note/';
+
+export interface LinkQuery {
+    query: string;
+    start: number; // Index of the opening `[[`
+}
+
+interface WikiLink {
+    title: string;
+    suffix: string; // `#Heading` and/or `|alias` exactly as written after the title
+    label: string; // What the link displays: the alias, else the target as written
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+const parseWikiLink = (inner: string): WikiLink => {
+    const cut = inner.search(/[#|]/);
+    const pipe = inner.indexOf('|');
+    const alias = pipe < 0 ? '' : inner.slice(pipe + 1).trim();
+    return {
+        title: (cut < 0 ? inner : inner.slice(0, cut)).trim(),
+        suffix: cut < 0 ? '' : inner.slice(cut),
+        label: alias || (pipe < 0 ? inner : inner.slice(0, pipe)).trim()
+    };
+};
+
+const isLinkable = (note: Note) => !note.isDeleted && !note.encrypted;
+
+const mapOutsideCode = (content: string, transform: (text: string) => string) =>
+    content.split(CODE_PATTERN).map((part, i) => i % 2 === 1 ? part : transform(part)).join('');
+
+export const extractLinkTitles = (content: string): string[] => {
+    const titles: string[] = [];
+    mapOutsideCode(content || '', text => {
+        for (const match of text.matchAll(WIKILINK_PATTERN)) {
+            const { title } = parseWikiLink(match[1]);
+            if (title) titles.push(title);
+        }
+        return text;
+    });
+    return titles;
+};
+
+export const resolveNoteLink = (title: string, notes: Note[]): Note | undefined => {
+    const wanted = normalizeTitle(title);
+    return notes.find(n => isLinkable(n) && normalizeTitle(n.title) === wanted);
+};
+
+// Every live note whose content links to this one, most recently created first.
+export const getBacklinks = (note: Note, notes: Note[]): Note[] => {
+    const wanted = normalizeTitle(note.title);
+    if (!wanted) return [];
+    return notes
+        .filter(n => n.id !== note.id && isLinkable(n) && extractLinkTitles(n.content).some(t => normalizeTitle(t) === wanted))
+        .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Parentheses are escaped too so an unbalanced one cannot end the markdown link early.
+const encodeTitle = (title: string) => encodeURIComponent(title).replace(/\(/g, '%28').replace(/\)/g, '%29');
+
+// Turns `[[Title]]` into a markdown link the renderers recognise by NOTE_LINK_PREFIX.
+export const linkifyNoteLinks = (content: string) =>
+    mapOutsideCode(content || '', text =>
+        text.replace(WIKILINK_PATTERN, (link, inner: string) => {
+            const { title, label } = parseWikiLink(inner);
+            return title ? `[${label}](${NOTE_LINK_PREFIX}${encodeTitle(title)})` : link;
+        }));
+
+export const titleFromNoteHref = (href: string | undefined): string | null =>
+    href?.startsWith(NOTE_LINK_PREFIX) ? decodeURIComponent(href.slice(NOTE_LINK_PREFIX.length)) : null;
+
+/**
+ * Rewrites links to a renamed note across the vault. Returns only the notes that changed.
+ * Skipped when another live note still carries the old title, since those links now point at it.
+ */
+export const renameNoteLinks = (notes: Note[], renamed: Note, oldTitle: string): Note[] => {
+    const from = normalizeTitle(oldTitle);
+    const to = renamed.title.trim();
+    if (!from || !to || normalizeTitle(to) === from) return [];
+    if (notes.some(n => n.id !== renamed.id && isLinkable(n) && normalizeTitle(n.title) === from)) return [];
+
+    const rewrite = (text: string) => mapOutsideCode(text, part =>
+        part.replace(WIKILINK_PATTERN, (link, inner: string) => {
+            const { title, suffix } = parseWikiLink(inner);
+            return normalizeTitle(title) === from ? `[[${to}${suffix}]]` : link;
+        }));
+
+    return notes.flatMap(note => {
+        if (note.encrypted || !note.content) return [];
+        const content = rewrite(note.content);
+        if (content === note.content) return [];
+        return [{ ...note, content, rawContent: note.rawContent ? rewrite(note.rawContent) : note.rawContent }];
+    });
+};
+
+// The unfinished `[[query` the caret sits in, if any.
+export const getLinkQuery = (text: string, caret: number): LinkQuery | null => {
+    const before = text.slice(0, caret);
+    const start = before.lastIndexOf('[[');
+    if (start < 0) return null;
+    const query = before.slice(start + 2);
+    return /[\[\]\n]/.test(query) ? null : { query, start };
+};
+
+export const suggestLinkTargets = (query: string, notes: Note[], excludeId?: string, limit = 6): Note[] => {
+    const wanted = normalizeTitle(query);
+    return notes
+        .filter(n => isLinkable(n) && n.id !== excludeId && n.title && normalizeTitle(n.title).includes(wanted))
+        .sort((a, b) => Number(!normalizeTitle(a.title).startsWith(wanted)) - Number(!normalizeTitle(b.title).startsWith(wanted)) || a.title.localeCompare(b.title))
+        .slice(0, limit);
+};
+
+// Completes the link at `start`, reusing any `]]` already after the caret. Returns the new text and caret.
+export const completeLink = (text: string, caret: number, start: number, title: string): { text: string; caret: number } => {
+    const after = text.slice(caret).startsWith(']]') ? text.slice(caret + 2) : text.slice(caret);
+    const link = `[[${title}]]`;
+    return { text: text.slice(0, start) + link + after, caret: start + link.length };
+};
@@ -0,0 +1,126 @@
+/**
+ * Thin promise wrapper around the browser IndexedDB used for local persistence.
+ * Every record is stored as { id, ownerId, value } and keyed on [ownerId, id], so one
+ * database can hold several accounts (and the guest session) side by side without
+ * one owner's records overwriting or deleting another's.
+ */
+
+const DB_NAME = 'weavenote_local';
+const DB_VERSION = 5;
+const OWNER_KEYED_VERSION = 5; // Stores were keyed on id alone before this
+
+export type LocalStoreName = 'notes' | 'folders' | 'outbox' | 'revisions' | 'embeddings';
+
+const STORE_NAMES: LocalStoreName[] = ['notes', 'folders', 'outbox', 'revisions', 'embeddings'];
+
+export const GUEST_OWNER = '__guest__';
+
+interface LocalRecord<T> {
+    id: string;
+    ownerId: string;
+    value: T;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDBAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openLocalDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (!isIndexedDBAvailable()) {
+            reject(new Error('IndexedDB is not available in this environment.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            const createStore = (name: LocalStoreName) => {
+                const store = db.createObjectStore(name, { keyPath: ['ownerId', 'id'] });
+                store.createIndex('ownerId', 'ownerId', { unique: false });
+                return store;
+            };
+            STORE_NAMES.forEach(name => {
+                if (!db.objectStoreNames.contains(name)) {
+                    createStore(name);
+                } else if (event.oldVersion < OWNER_KEYED_VERSION) {
+                    // Re-key existing records in place; the upgrade transaction stays open across these requests
+                    const read = tx.objectStore(name).getAll();
+                    read.onsuccess = () => {
+                        db.deleteObjectStore(name);
+                        const store = createStore(name);
+                        (read.result as LocalRecord<unknown>[]).forEach(record => store.put(record));
+                    };
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error || new Error('Failed to open local database.'));
+        };
+    });
+    return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const txDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted.'));
+});
+
+export const ownerKey = (userId: string | null): string => userId || GUEST_OWNER;
+
+export const getAllLocal = async <T>(store: LocalStoreName, userId: string | null): Promise<T[]> => {
+    const db = await openLocalDatabase();
+    const tx = db.transaction(store, 'readonly');
+    const records = await toPromise(tx.objectStore(store).index('ownerId').getAll(ownerKey(userId))) as LocalRecord<T>[];
+    return records.map(r => r.value);
+};
+
+export const putLocal = async <T extends { id: string }>(store: LocalStoreName, value: T, userId: string | null) => {
+    await putManyLocal(store, [value], userId);
+};
+
+export const putManyLocal = async <T extends { id: string }>(store: LocalStoreName, values: T[], userId: string | null) => {
+    if (values.length === 0) return;
+    const db = await openLocalDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const owner = ownerKey(userId);
+    values.forEach(value => objectStore.put({ id: value.id, ownerId: owner, value } as LocalRecord<T>));
+    await txDone(tx);
+};
+
+export const deleteLocal = async (store: LocalStoreName, id: string, userId: string | null) => {
+    const db = await openLocalDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete([ownerKey(userId), id]);
+    await txDone(tx);
+};
+
+export const deleteManyLocal = async (store: LocalStoreName, ids: string[], userId: string | null) => {
+    if (ids.length === 0) return;
+    const db = await openLocalDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    ids.forEach(id => objectStore.delete([ownerKey(userId), id]));
+    await txDone(tx);
+};
+
+export const replaceAllLocal = async <T extends { id: string }>(store: LocalStoreName, values: T[], userId: string | null) => {
+    const db = await openLocalDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const owner = ownerKey(userId);
+    const existingKeys = await toPromise(objectStore.index('ownerId').getAllKeys(owner));
+    existingKeys.forEach(key => objectStore.delete(key));
+    values.forEach(value => objectStore.put({ id: value.id, ownerId: owner, value } as LocalRecord<T>));
+    await txDone(tx);
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { Note, Folder, NoteColor } from '../types';
+import {
+    NOTE_MIGRATIONS, FOLDER_MIGRATIONS, NOTE_SCHEMA_VERSION, FOLDER_SCHEMA_VERSION,
+    migrateNote, migrateFolder, noteNeedsMigration
+} from './migrationService';
+
+// Documents as they were written before any schema version existed
+const legacyNote = (fields: Partial<Note> = {}): Note => ({ id: 'n1', title: 'Old note', content: 'Body', createdAt: 1, ...fields } as Note);
+const legacyFolder = (fields: Partial<Folder> = {}): Folder => ({ id: 'f1', ...fields } as Folder);
+
+const step = <T>(migrations: { version: number; up: (doc: T) => T }[], version: number) => migrations.find(m => m.version === version)!.up;
+
+describe('NOTE_MIGRATIONS v1', () => {
+    const up = step(NOTE_MIGRATIONS, 1);
+
+    it('fills defaults for fields added after launch', () => {
+        expect(up(legacyNote())).toMatchObject({
+            rawContent: 'Body',
+            category: 'General',
+            tags: [],
+            color: NoteColor.Yellow,
+            type: 'quick',
+            attachments: [],
+            accessCount: 0,
+            isDeleted: false
+        });
+    });
+
+    it('keeps values that are already set', () => {
+        const note = legacyNote({ rawContent: '', category: 'Work', tags: ['a'], color: NoteColor.Blue, type: 'code', attachments: ['x'], accessCount: 3, isDeleted: true });
+        expect(up(note)).toEqual(note);
+    });
+
+    it('is idempotent', () => {
+        const once = up(legacyNote());
+        expect(up(once)).toEqual(once);
+    });
+});
+
+describe('NOTE_MIGRATIONS v2', () => {
+    const up = step(NOTE_MIGRATIONS, 2);
+
+    it('gives a project note a complete projectData', () => {
+        expect(up(legacyNote({ type: 'project' })).projectData).toEqual({ objectives: [], deliverables: [], milestones: [], timeline: [] });
+    });
+
+    it('falls back to deliverables for missing objectives', () => {
+        const note = legacyNote({ type: 'project', projectData: { deliverables: ['Ship'] } as any });
+        expect(up(note).projectData).toMatchObject({ objectives: ['Ship'], deliverables: ['Ship'], milestones: [], timeline: [] });
+    });
+
+    it('completes projectData on notes of other types', () => {
+        const note = legacyNote({ type: 'quick', projectData: { objectives: ['Plan'] } as any });
+        expect(up(note).projectData).toMatchObject({ objectives: ['Plan'], deliverables: [], milestones: [], timeline: [] });
+    });
+
+    it('leaves notes without project data alone', () => {
+        const note = legacyNote({ type: 'quick' });
+        expect(up(note)).toBe(note);
+    });
+
+    it('is idempotent', () => {
+        const once = up(legacyNote({ type: 'project', projectData: { deliverables: ['Ship'], workflow: { nodes: [], edges: [] } } as any }));
+        expect(up(once)).toEqual(once);
+    });
+});
+
+describe('FOLDER_MIGRATIONS v1', () => {
+    const up = step(FOLDER_MIGRATIONS, 1);
+
+    it('fills a name and numeric order', () => {
+        expect(up(legacyFolder())).toMatchObject({ name: 'Untitled', order: 0 });
+    });
+
+    it('keeps an existing name and order', () => {
+        const folder = legacyFolder({ name: 'Work', order: 4, parentId: 'root' });
+        expect(up(folder)).toEqual(folder);
+    });
+
+    it('is idempotent', () => {
+        const once = up(legacyFolder());
+        expect(up(once)).toEqual(once);
+    });
+});
+
+describe('migrateNote', () => {
+    it('runs every step and stamps the latest version', () => {
+        const migrated = migrateNote(legacyNote({ type: 'project' }));
+        expect(migrated.schemaVersion).toBe(NOTE_SCHEMA_VERSION);
+        expect(migrated.category).toBe('General');
+        expect(migrated.projectData?.objectives).toEqual([]);
+    });
+
+    it('only runs the steps above the stored version', () => {
+        // A v1 note missing a category must not be touched by the v1 step again
+        const migrated = migrateNote(legacyNote({ type: 'project', schemaVersion: 1 }));
+        expect(migrated.category).toBeUndefined();
+        expect(migrated.projectData).toBeDefined();
+        expect(migrated.schemaVersion).toBe(NOTE_SCHEMA_VERSION);
+    });
+
+    it('returns current notes unchanged', () => {
+        const note = migrateNote(legacyNote());
+        expect(noteNeedsMigration(note)).toBe(false);
+        expect(migrateNote(note)).toBe(note);
+    });
+
+    it('leaves notes newer than this build untouched', () => {
+        const note = legacyNote({ schemaVersion: NOTE_SCHEMA_VERSION + 1 });
+        expect(migrateNote(note)).toBe(note);
+    });
+
+    it('skips sealed notes until they are decrypted', () => {
+        const note = legacyNote({ encrypted: { v: 1, iv: 'iv', data: 'data' } });
+        expect(migrateNote(note)).toBe(note);
+    });
+});
+
+describe('migrateFolder', () => {
+    it('stamps the latest version and returns current folders unchanged', () => {
+        const migrated = migrateFolder(legacyFolder());
+        expect(migrated.schemaVersion).toBe(FOLDER_SCHEMA_VERSION);
+        expect(migrateFolder(migrated)).toBe(migrated);
+    });
+});
@@ -0,0 +1,84 @@
+import { Note, Folder, ProjectData, NoteColor } from '../types';
+
+/**
+ * SCHEMA MIGRATIONS
+ * Stored notes and folders carry a `schemaVersion`. Documents written before versioning
+ * count as version 0. Each step upgrades a document by exactly one version and must be
+ * idempotent, because notes from imports or other devices can arrive at any version.
+ * Documents newer than this build are left untouched.
+ */
+
+export interface Migration<T> {
+    version: number; // Version the document has after this step
+    description: string;
+    up: (doc: T) => T;
+}
+
+export const emptyProjectData = (): ProjectData => ({ objectives: [], deliverables: [], milestones: [], timeline: [] });
+
+export const NOTE_MIGRATIONS: Migration<Note>[] = [
+    {
+        version: 1,
+        description: 'Fill defaults for fields added after launch',
+        up: note => ({
+            ...note,
+            rawContent: typeof note.rawContent === 'string' ? note.rawContent : note.content ?? '',
+            category: note.category || 'General',
+            tags: Array.isArray(note.tags) ? note.tags : [],
+            color: note.color || NoteColor.Yellow,
+            type: note.type || 'quick',
+            attachments: Array.isArray(note.attachments) ? note.attachments : [],
+            accessCount: typeof note.accessCount === 'number' ? note.accessCount : 0,
+            isDeleted: note.isDeleted === true
+        })
+    },
+    {
+        version: 2,
+        description: 'Give project notes (and any note carrying projectData) a complete projectData; objectives fall back to deliverables',
+        up: note => {
+            if (note.type !== 'project' && !note.projectData) return note;
+            const data = note.projectData;
+            return {
+                ...note,
+                projectData: {
+                    ...data,
+                    objectives: data?.objectives || data?.deliverables || [],
+                    deliverables: data?.deliverables || [],
+                    milestones: data?.milestones || [],
+                    timeline: data?.timeline || []
+                }
+            };
+        }
+    }
+];
+
+export const FOLDER_MIGRATIONS: Migration<Folder>[] = [
+    {
+        version: 1,
+        description: 'Ensure every folder has a name and numeric order',
+        up: folder => ({
+            ...folder,
+            name: folder.name || 'Untitled',
+            order: typeof folder.order === 'number' ? folder.order : 0
+        })
+    }
+];
+
+const latestVersion = <T>(migrations: Migration<T>[]) => migrations[migrations.length - 1].version;
+
+export const NOTE_SCHEMA_VERSION = latestVersion(NOTE_MIGRATIONS);
+export const FOLDER_SCHEMA_VERSION = latestVersion(FOLDER_MIGRATIONS);
+
+const runMigrations = <T extends { schemaVersion?: number }>(doc: T, migrations: Migration<T>[]): T => {
+    const from = doc.schemaVersion || 0;
+    return migrations
+        .filter(m => m.version > from)
+        .reduce((current, m) => ({ ...m.up(current), schemaVersion: m.version }), doc);
+};
+
+// Sealed vault notes are migrated once they are decrypted; their fields are not visible before that.
+export const noteNeedsMigration = (note: Note) => !note.encrypted && (note.schemaVersion || 0) < NOTE_SCHEMA_VERSION;
+export const folderNeedsMigration = (folder: Folder) => (folder.schemaVersion || 0) < FOLDER_SCHEMA_VERSION;
+
+export const migrateNote = (note: Note): Note => noteNeedsMigration(note) ? runMigrations(note, NOTE_MIGRATIONS) : note;
+export const migrateFolder = (folder: Folder): Folder => folderNeedsMigration(folder) ? runMigrations(folder, FOLDER_MIGRATIONS) : folder;
@@ -0,0 +1,73 @@
+import { doc, getDoc, setDoc, updateDoc, deleteField } from 'firebase/firestore';
+import { db } from './firebase';
+import { logAudit } from './authService';
+import { Note, User } from '../types';
+
+/**
+ * TRASH RETENTION
+ * A trashed note is purged once it has been in the trash longer than its owner's retention.
+ * Admins set the default (`settings/trash`); each account may override it on its user doc
+ * and guests keep their choice in localStorage. A retention of 0 keeps trash forever.
+ * scripts/purgeTrash.mjs applies the same rules server-side, so keep the two in step.
+ */
+export const DEFAULT_RETENTION_DAYS = 30;
+export const RETENTION_CHOICES = [7, 14, 30, 90, 365, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCAL_DEFAULT_KEY = 'weavenote_trash_retention_default';
+const GUEST_RETENTION_KEY = 'weavenote_trash_retention_guest';
+
+const isValidDays = (days: unknown): days is number => typeof days === 'number' && Number.isInteger(days) && days >= 0;
+
+const readLocalDays = (key: string): number | null => {
+    const stored = Number(localStorage.getItem(key));
+    return localStorage.getItem(key) !== null && isValidDays(stored) ? stored : null;
+};
+
+export const formatRetention = (days: number) => days === 0 ? 'Forever' : days === 1 ? '1 day' : `${days} days`;
+
+export const loadRetentionDefault = async (): Promise<number> => {
+    if (!db) return readLocalDays(LOCAL_DEFAULT_KEY) ?? DEFAULT_RETENTION_DAYS;
+    try {
+        const snapshot = await getDoc(doc(db, 'settings', 'trash'));
+        const days = snapshot.exists() ? snapshot.data().defaultRetentionDays : undefined;
+        return isValidDays(days) ? days : DEFAULT_RETENTION_DAYS;
+    } catch (e) {
+        console.warn("Retention default unavailable, using built-in", e);
+        return DEFAULT_RETENTION_DAYS;
+    }
+};
+
+export const saveRetentionDefault = async (days: number, actor: string) => {
+    if (!isValidDays(days)) throw new Error('Retention must be a whole number of days.');
+    if (db) await setDoc(doc(db, 'settings', 'trash'), { defaultRetentionDays: days, updatedAt: Date.now(), updatedBy: actor }, { merge: true });
+    else localStorage.setItem(LOCAL_DEFAULT_KEY, String(days));
+    await logAudit('UPDATE_TRASH_RETENTION', actor, 'default', formatRetention(days));
+};
+
+// The owner's own setting, or null when they follow the default.
+export const getUserRetention = (user: User | null): number | null =>
+    user ? (isValidDays(user.trashRetentionDays) ? user.trashRetentionDays : null) : readLocalDays(GUEST_RETENTION_KEY);
+
+// Returns the user with the new setting applied so callers can refresh their copy.
+export const saveUserRetention = async (user: User | null, days: number | null): Promise<User | null> => {
+    if (days !== null && !isValidDays(days)) throw new Error('Retention must be a whole number of days.');
+    if (!user) {
+        if (days === null) localStorage.removeItem(GUEST_RETENTION_KEY);
+        else localStorage.setItem(GUEST_RETENTION_KEY, String(days));
+        return null;
+    }
+    if (db) await updateDoc(doc(db, 'users', user.uid), { trashRetentionDays: days === null ? deleteField() : days });
+    await logAudit('UPDATE_TRASH_RETENTION', user.username, user.uid, days === null ? 'Default' : formatRetention(days));
+    const { trashRetentionDays, ...rest } = user;
+    return days === null ? rest : { ...rest, trashRetentionDays: days };
+};
+
+export const resolveRetentionDays = (user: User | null, defaultDays: number) => getUserRetention(user) ?? defaultDays;
+
+export const isRetentionExpired = (note: Note, retentionDays: number, now = Date.now()) =>
+    !!note.isDeleted && retentionDays > 0 && (note.deletedAt || 0) < now - retentionDays * DAY_MS;
+
+// Whole days left before purge, or null when the trash is kept forever.
+export const daysUntilPurge = (note: Note, retentionDays: number, now = Date.now()): number | null =>
+    retentionDays > 0 ? Math.max(0, retentionDays - Math.floor((now - (note.deletedAt || 0)) / DAY_MS)) : null;
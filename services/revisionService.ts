@@ -0,0 +1,93 @@
+import { Note, NoteRevision } from '../types';
+
+/**
+ * NOTE REVISION HISTORY
+ * Snapshot helpers and a line-level diff used by the history pane.
+ */
+
+export const createRevision = (note: Note, revision: number): NoteRevision => ({
+    id: `${note.id}:${revision}`,
+    noteId: note.id,
+    revision,
+    createdAt: note.updatedAt || Date.now(),
+    title: note.title,
+    content: note.content,
+    category: note.category,
+    tags: [...note.tags],
+    ...(note.projectData ? { projectData: note.projectData } : {})
+});
+
+// Only fields a user edits count as a new revision (accessCount bumps, color changes etc. do not).
+export const revisionFingerprint = (note: Pick<Note, 'title' | 'content' | 'category' | 'tags' | 'projectData'>): string =>
+    JSON.stringify([note.title, note.content, note.category, note.tags, note.projectData ?? null]);
+
+export const sortRevisions = (revisions: NoteRevision[]): NoteRevision[] =>
+    [...revisions].sort((a, b) => b.revision - a.revision);
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Longest-common-subsequence line diff from `before` to `after`.
+ * Very large inputs fall back to a whole-block replace to keep the UI responsive.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // Trim the shared prefix/suffix so the table only covers the changed middle.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+    const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_DIFF_CELLS) {
+        return [
+            ...head,
+            ...midA.map(text => ({ type: 'removed' as const, text })),
+            ...midB.map(text => ({ type: 'added' as const, text })),
+            ...tail
+        ];
+    }
+
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i * cols + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * cols + j + 1] + 1
+                : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) {
+            middle.push({ type: 'same', text: midA[i] });
+            i++; j++;
+        } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+            middle.push({ type: 'removed', text: midA[i++] });
+        } else {
+            middle.push({ type: 'added', text: midB[j++] });
+        }
+    }
+    while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+    while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+    return [...head, ...middle, ...tail];
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { AppRoute, parseRoute, buildRouteUrl } from './routeService';
+
+const route = (fields: Partial<AppRoute> = {}): AppRoute => ({ tab: 'quick', folderId: null, tag: null, date: null, search: '', noteId: null, ...fields });
+
+const roundTrip = (r: AppRoute) => {
+    const url = new URL(buildRouteUrl(r), 'http://localhost');
+    return parseRoute(url.pathname, url.search);
+};
+
+describe('parseRoute', () => {
+    it('defaults to the quick notes tab', () => {
+        expect(parseRoute('/', '')).toEqual(route());
+    });
+
+    it('reads the tab, filters and search', () => {
+        expect(parseRoute('/project', '?folder=f1&tag=work&date=2024-05-01&q=plan')).toEqual(route({ tab: 'project', folderId: 'f1', tag: 'work', date: '2024-05-01', search: 'plan' }));
+    });
+
+    it('ignores unknown tabs and malformed dates', () => {
+        expect(parseRoute('/nope', '?date=yesterday')).toEqual(route());
+    });
+
+    it('only reads `tab` from the query on note URLs', () => {
+        expect(parseRoute('/note/abc', '?tab=code')).toEqual(route({ tab: 'code', noteId: 'abc' }));
+        expect(parseRoute('/', '?tab=code').tab).toBe('quick');
+    });
+
+    it('keeps a malformed escape as written instead of throwing', () => {
+        expect(parseRoute('/note/%E0%A4%A', '').noteId).toBe('%E0%A4%A');
+        expect(parseRoute('/%E0%A4%A', '')).toEqual(route());
+    });
+});
+
+describe('buildRouteUrl', () => {
+    it('writes the default route as /', () => {
+        expect(buildRouteUrl(route())).toBe('/');
+    });
+
+    it('round-trips through parseRoute', () => {
+        [
+            route({ tab: 'project', folderId: 'f1', tag: 'work', date: '2024-05-01', search: 'plan & ship' }),
+            route({ tab: 'code', noteId: 'id/with spaces?#' }),
+            route({ noteId: 'n1', search: 'q' }),
+            route({ tag: 'ünïcode' })
+        ].forEach(r => expect(roundTrip(r)).toEqual(r));
+    });
+});
@@ -0,0 +1,70 @@
+import { NoteType } from '../types';
+
+/**
+ * ROUTING
+ * The visible view lives in the URL so it can be bookmarked, shared and navigated with back/forward:
+ *   /                     quick notes (the default tab)
+ *   /project              another tab
+ *   /note/<id>            a note opened in the detail view, over whatever view the query describes
+ * Filters ride along as query parameters: ?folder=<id>&tag=<tag>&date=YYYY-MM-DD&q=<search>&tab=<type>
+ * (`tab` only appears on note URLs). Hosting must serve index.html for unknown paths; `serve -s` and the
+ * Vite dev server both do.
+ */
+
+export interface AppRoute {
+    tab: NoteType;
+    folderId: string | null;
+    tag: string | null;
+    date: string | null; // YYYY-MM-DD
+    search: string;
+    noteId: string | null;
+}
+
+export const NOTE_TYPES: NoteType[] = ['quick', 'notebook', 'deep', 'code', 'project', 'contact', 'document'];
+const DEFAULT_TAB: NoteType = 'quick';
+
+const asNoteType = (value: string | null): NoteType | null =>
+    value && NOTE_TYPES.includes(value as NoteType) ? value as NoteType : null;
+
+// A malformed escape (e.g. from a truncated link) is kept as written rather than throwing.
+const decodeSegment = (segment: string) => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+export const parseRoute = (pathname: string, search: string): AppRoute => {
+    const params = new URLSearchParams(search);
+    const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+    const noteId = segments[0] === 'note' && segments[1] ? segments[1] : null;
+    return {
+        tab: asNoteType(noteId ? params.get('tab') : segments[0] || null) || DEFAULT_TAB,
+        folderId: params.get('folder') || null,
+        tag: params.get('tag') || null,
+        date: /^\d{4}-\d{2}-\d{2}$/.test(params.get('date') || '') ? params.get('date') : null,
+        search: params.get('q') || '',
+        noteId
+    };
+};
+
+export const buildRouteUrl = (route: AppRoute): string => {
+    const params = new URLSearchParams();
+    if (route.noteId && route.tab !== DEFAULT_TAB) params.set('tab', route.tab);
+    if (route.folderId) params.set('folder', route.folderId);
+    if (route.tag) params.set('tag', route.tag);
+    if (route.date) params.set('date', route.date);
+    if (route.search) params.set('q', route.search);
+    const path = route.noteId
+        ? `/note/${encodeURIComponent(route.noteId)}`
+        : route.tab === DEFAULT_TAB ? '/' : `/${route.tab}`;
+    const query = params.toString();
+    return query ? `${path}?${query}` : path;
+};
+
+// Typing in the search box rewrites the current history entry instead of adding one per keystroke.
+export const isSearchOnlyChange = (a: AppRoute, b: AppRoute) =>
+    a.search !== b.search && a.tab === b.tab && a.folderId === b.folderId && a.tag === b.tag && a.date === b.date && a.noteId === b.noteId;
+
+export const currentUrl = () => `${window.location.pathname}${window.location.search}`;
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Note, NoteColor } from '../types';
+import { parseSearchQuery, createSearchIndex, updateSearchIndex, searchNotes, getHighlightPattern, splitHighlights } from './searchService';
+
+const note = (id: string, fields: Partial<Note> = {}): Note => ({
+    id, title: '', content: '', rawContent: '', category: 'General', tags: [], color: NoteColor.Yellow, createdAt: 1, type: 'quick', ...fields
+});
+
+const search = (notes: Note[], query: string) =>
+    searchNotes(updateSearchIndex(createSearchIndex(), notes), parseSearchQuery(query)).map(r => r.note.id);
+
+describe('parseSearchQuery', () => {
+    it('splits free text into lowercase terms', () => {
+        expect(parseSearchQuery('Deploy the API').terms).toEqual(['deploy', 'the', 'api']);
+    });
+
+    it('reads field filters and strips a leading # from tags', () => {
+        expect(parseSearchQuery('tag:#infra type:project before:2026-01-01').filters).toEqual([
+            { field: 'tag', value: 'infra', negate: false },
+            { field: 'type', value: 'project', negate: false },
+            { field: 'before', value: '2026-01-01', negate: false }
+        ]);
+    });
+
+    it('searches an unknown field as plain text', () => {
+        expect(parseSearchQuery('owner:sam').terms).toEqual(['owner', 'sam']);
+    });
+
+    it('negates terms, phrases and filters', () => {
+        const parsed = parseSearchQuery('-draft -"old plan" -tag:archive');
+        expect(parsed.excludedTerms).toEqual(['draft']);
+        expect(parsed.excludedPhrases).toEqual(['old plan']);
+        expect(parsed.filters).toEqual([{ field: 'tag', value: 'archive', negate: true }]);
+    });
+
+    it('reads quoted phrases, including an unclosed one while typing', () => {
+        expect(parseSearchQuery('"Release Notes" "half typ').phrases).toEqual(['release notes', 'half typ']);
+    });
+
+    it('skips empty phrases', () => {
+        expect(parseSearchQuery('"" -""')).toEqual({ terms: [], phrases: [], excludedTerms: [], excludedPhrases: [], filters: [] });
+    });
+});
+
+describe('searchNotes', () => {
+    const notes = [
+        note('title', { title: 'Kubernetes upgrade' }),
+        note('body', { content: 'We should plan the kubernetes upgrade soon.' }),
+        note('other', { title: 'Groceries', content: 'milk' })
+    ];
+
+    it('ranks title matches above content matches', () => {
+        expect(search(notes, 'kubernetes')).toEqual(['title', 'body']);
+    });
+
+    it('requires every term and lets the last one be a prefix', () => {
+        expect(search(notes, 'kubernetes upgr')).toEqual(['title', 'body']);
+        expect(search(notes, 'upgr kubernetes')).toEqual([]);
+    });
+
+    it('scores an exact token above a prefix match', () => {
+        const prefixed = [note('exact', { content: 'plan' }), note('prefix', { content: 'planning' })];
+        expect(search(prefixed, 'plan')).toEqual(['exact', 'prefix']);
+    });
+
+    it('applies phrases, exclusions and filters', () => {
+        const tagged = [...notes, note('tagged', { title: 'Kubernetes notes', tags: ['infra'] })];
+        expect(search(tagged, '"upgrade soon"')).toEqual(['body']);
+        expect(search(tagged, 'kubernetes -soon')).toEqual(['title', 'tagged']);
+        expect(search(tagged, 'kubernetes tag:infra')).toEqual(['tagged']);
+        expect(search(tagged, 'kubernetes -tag:infra')).toEqual(['title', 'body']);
+    });
+
+    it('re-indexes a note when its object changes', () => {
+        const index = updateSearchIndex(createSearchIndex(), notes);
+        updateSearchIndex(index, notes.map(n => n.id === 'other' ? { ...n, content: 'kubernetes' } : n));
+        expect(searchNotes(index, parseSearchQuery('kubernetes')).map(r => r.note.id)).toContain('other');
+    });
+});
+
+describe('splitHighlights', () => {
+    it('highlights terms only at the start of a word', () => {
+        expect(splitHighlights('abab ab', getHighlightPattern(parseSearchQuery('ab')))).toEqual([
+            { text: 'ab', match: true },
+            { text: 'ab ', match: false },
+            { text: 'ab', match: true }
+        ]);
+    });
+
+    it('highlights phrases anywhere, ignoring case', () => {
+        expect(splitHighlights('The Release Notes', getHighlightPattern(parseSearchQuery('"release no"')))).toEqual([
+            { text: 'The ', match: false },
+            { text: 'Release No', match: true },
+            { text: 'tes', match: false }
+        ]);
+    });
+
+    it('returns the text unmarked without a pattern', () => {
+        expect(splitHighlights('plain', null)).toEqual([{ text: 'plain', match: false }]);
+    });
+});
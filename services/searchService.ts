@@ -0,0 +1,268 @@
+import { Note, Folder } from '../types';
+import { getFolderPath } from './folderService';
+
+/**
+ * SEARCH
+ * Queries combine free text with field filters:
+ *   tag:infra type:project folder:Ops category:work before:2026-01-01 after:2025-06-30 "exact phrase" -draft
+ * Any term or filter can be negated with a leading `-`. Free-text terms must all match (the last one may be
+ * a prefix, so results update while typing) and are ranked with a weighted TF-IDF over an inverted index.
+ * The index lives in memory and is updated per note: unchanged note objects are skipped, so saving one note
+ * only re-indexes that note.
+ */
+
+export type SearchField = 'tag' | 'type' | 'folder' | 'category' | 'before' | 'after';
+
+export interface SearchFilter {
+    field: SearchField;
+    value: string;
+    negate: boolean;
+}
+
+export interface ParsedQuery {
+    terms: string[];
+    phrases: string[];
+    excludedTerms: string[];
+    excludedPhrases: string[];
+    filters: SearchFilter[];
+}
+
+export interface SearchResult {
+    note: Note;
+    score: number;
+}
+
+interface IndexedDoc {
+    note: Note; // The exact object indexed; a different object means the note changed
+    text: string; // Normalised text of every searchable field, for phrase matching
+    tokens: Map<string, number>; // Token -> weighted term frequency
+}
+
+export interface SearchIndex {
+    docs: Map<string, IndexedDoc>;
+    postings: Map<string, Set<string>>; // Token -> ids of notes containing it
+}
+
+const SEARCH_FIELDS: SearchField[] = ['tag', 'type', 'folder', 'category', 'before', 'after'];
+const PREFIX_MATCH_WEIGHT = 0.5;
+const PHRASE_BONUS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weight of a match in each part of a note.
+const FIELD_WEIGHTS = { title: 3, tags: 2.5, category: 1.5, content: 1, project: 1 };
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const QUERY_PATTERN = /(-?)(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g;
+
+const normalize = (text: string) => text.toLowerCase();
+export const tokenize = (text: string): string[] => normalize(text || '').match(TOKEN_PATTERN) || [];
+
+export const parseSearchQuery = (input: string): ParsedQuery => {
+    const parsed: ParsedQuery = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [], filters: [] };
+    for (const match of (input || '').matchAll(QUERY_PATTERN)) {
+        const [, minus, field, quoted, bare] = match;
+        const negate = minus === '-';
+        const value = (quoted ?? bare ?? '').trim();
+        if (field && SEARCH_FIELDS.includes(field.toLowerCase() as SearchField)) {
+            if (value) parsed.filters.push({ field: field.toLowerCase() as SearchField, value: value.replace(/^#/, ''), negate });
+            continue;
+        }
+        // An unknown `field:` is searched as plain text
+        const text = field ? `${field}:${value}` : value;
+        if (quoted !== undefined) {
+            if (!text) continue;
+            (negate ? parsed.excludedPhrases : parsed.phrases).push(normalize(text));
+        } else {
+            (negate ? parsed.excludedTerms : parsed.terms).push(...tokenize(text));
+        }
+    }
+    return parsed;
+};
+
+export const isEmptyQuery = (query: ParsedQuery) =>
+    !query.terms.length && !query.phrases.length && !query.excludedTerms.length && !query.excludedPhrases.length && !query.filters.length;
+
+const projectText = (note: Note): string => {
+    const data = note.projectData;
+    if (!data) return '';
+    return [
+        ...(data.objectives || []),
+        ...(data.deliverables || []),
+        ...(data.milestones || []).map(m => m.label),
+        ...(data.timeline || []).map(p => p.name),
+        ...(data.workflow?.nodes || []).flatMap(n => [n.label, n.rule || '']),
+        data.estimatedDuration || ''
+    ].join('\n');
+};
+
+const indexNote = (note: Note): IndexedDoc => {
+    // rawContent is the pre-AI text; only count it where it adds words the formatted content lacks
+    const body = note.rawContent && note.rawContent !== note.content ? `${note.content}\n${note.rawContent}` : note.content;
+    const fields: [keyof typeof FIELD_WEIGHTS, string][] = [
+        ['title', note.title],
+        ['tags', (note.tags || []).join(' ')],
+        ['category', note.category],
+        ['content', body],
+        ['project', projectText(note)]
+    ];
+    const tokens = new Map<string, number>();
+    fields.forEach(([field, text]) => tokenize(text).forEach(token => tokens.set(token, (tokens.get(token) || 0) + FIELD_WEIGHTS[field])));
+    return { note, text: normalize(fields.map(([, text]) => text || '').join('\n')), tokens };
+};
+
+export const createSearchIndex = (): SearchIndex => ({ docs: new Map(), postings: new Map() });
+
+const removeDoc = (index: SearchIndex, id: string) => {
+    const doc = index.docs.get(id);
+    if (!doc) return;
+    doc.tokens.forEach((_, token) => {
+        const ids = index.postings.get(token);
+        ids?.delete(id);
+        if (ids && ids.size === 0) index.postings.delete(token);
+    });
+    index.docs.delete(id);
+};
+
+// Brings the index in line with `notes`, re-indexing only notes whose object changed.
+export const updateSearchIndex = (index: SearchIndex, notes: Note[]): SearchIndex => {
+    const current = new Set(notes.map(n => n.id));
+    [...index.docs.keys()].forEach(id => { if (!current.has(id)) removeDoc(index, id); });
+    notes.forEach(note => {
+        if (index.docs.get(note.id)?.note === note) return;
+        removeDoc(index, note.id);
+        const doc = indexNote(note);
+        index.docs.set(note.id, doc);
+        doc.tokens.forEach((_, token) => {
+            if (!index.postings.has(token)) index.postings.set(token, new Set());
+            index.postings.get(token)!.add(note.id);
+        });
+    });
+    return index;
+};
+
+const parseDay = (value: string): number | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    const time = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+    return Number.isNaN(time) ? null : time;
+};
+
+const matchesFilter = (note: Note, filter: SearchFilter, folders: Folder[]): boolean => {
+    const value = normalize(filter.value);
+    switch (filter.field) {
+        case 'tag': return (note.tags || []).some(t => normalize(t) === value);
+        case 'type': return normalize(note.type) === value;
+        case 'category': return normalize(note.category || '') === value;
+        // Matches notes in the named folder or anywhere beneath it
+        case 'folder': return getFolderPath(note.folderId, folders).some(f => normalize(f.name) === value);
+        case 'before': {
+            const day = parseDay(filter.value);
+            return day === null || note.createdAt < day;
+        }
+        case 'after': {
+            const day = parseDay(filter.value);
+            return day === null || note.createdAt >= day + DAY_MS;
+        }
+    }
+};
+
+// Ids of notes with a token equal to (weight 1) or starting with (PREFIX_MATCH_WEIGHT) the term.
+const lookupTerm = (index: SearchIndex, term: string, allowPrefix: boolean): Map<string, number> => {
+    const hits = new Map<string, number>();
+    index.postings.get(term)?.forEach(id => hits.set(id, 1));
+    if (allowPrefix) {
+        index.postings.forEach((ids, token) => {
+            if (token !== term && token.startsWith(term)) ids.forEach(id => { if (!hits.has(id)) hits.set(id, PREFIX_MATCH_WEIGHT); });
+        });
+    }
+    return hits;
+};
+
+/**
+ * Runs a parsed query over the indexed notes. Results are sorted by relevance; a query with only
+ * filters scores everything 0 and keeps the index order.
+ */
+export const searchNotes = (index: SearchIndex, query: ParsedQuery, folders: Folder[] = []): SearchResult[] => {
+    const total = index.docs.size || 1;
+    const scores = new Map<string, number>();
+    let candidates: Set<string> = new Set(index.docs.keys());
+
+    query.terms.forEach((term, i) => {
+        const hits = lookupTerm(index, term, i === query.terms.length - 1);
+        const idf = Math.log(1 + total / (hits.size || 1));
+        candidates = new Set([...candidates].filter(id => hits.has(id)));
+        candidates.forEach(id => {
+            const doc = index.docs.get(id)!;
+            const tf = doc.tokens.get(term) ?? [...doc.tokens].filter(([t]) => t.startsWith(term)).reduce((sum, [, w]) => sum + w, 0);
+            scores.set(id, (scores.get(id) || 0) + hits.get(id)! * idf * (1 + Math.log(tf || 1)));
+        });
+    });
+
+    const excluded = new Set(query.excludedTerms.flatMap(term => [...(index.postings.get(term) || [])]));
+
+    const results: SearchResult[] = [];
+    candidates.forEach(id => {
+        if (excluded.has(id)) return;
+        const doc = index.docs.get(id)!;
+        if (!query.phrases.every(p => doc.text.includes(p))) return;
+        if (query.excludedPhrases.some(p => doc.text.includes(p))) return;
+        if (!query.filters.every(f => matchesFilter(doc.note, f, folders) !== f.negate)) return;
+        const titleBoost = query.phrases.some(p => normalize(doc.note.title).includes(p)) ? FIELD_WEIGHTS.title : 1;
+        results.push({ note: doc.note, score: (scores.get(id) || 0) + query.phrases.length * PHRASE_BONUS * titleBoost });
+    });
+    return results.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * HIGHLIGHTING
+ * Terms match at the start of a word (so prefixes highlight as you type); phrases match anywhere.
+ */
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const getHighlightPattern = (query: ParsedQuery): RegExp | null => {
+    const parts = [
+        ...query.phrases.map(escapeRegExp),
+        ...query.terms.map(t => `(?<![\\p{L}\\p{N}])${escapeRegExp(t)}`)
+    ];
+    return parts.length ? new RegExp(`(${parts.join('|')})`, 'giu') : null;
+};
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+export const splitHighlights = (text: string, pattern: RegExp | null): HighlightSegment[] => {
+    if (!pattern || !text) return [{ text: text || '', match: false }];
+    // The pattern has a single capturing group, so split puts the matches at the odd indices
+    return text.split(pattern).map((part, i) => ({ text: part, match: i % 2 === 1 })).filter(segment => segment.text);
+};
+
+// Minimal hast shape so the plugin needs no extra dependency.
+interface HastNode {
+    type: string;
+    value?: string;
+    tagName?: string;
+    properties?: Record<string, unknown>;
+    children?: HastNode[];
+}
+
+const SKIP_TAGS = new Set(['code', 'pre', 'mark']);
+
+// A rehype plugin for react-markdown that wraps matches in <mark>, leaving code untouched.
+export const rehypeHighlight = (pattern: RegExp | null) => () => (tree: HastNode) => {
+    if (!pattern) return;
+    const walk = (node: HastNode) => {
+        if (!node.children || (node.tagName && SKIP_TAGS.has(node.tagName))) return;
+        node.children = node.children.flatMap(child => {
+            if (child.type !== 'text' || !child.value) {
+                walk(child);
+                return [child];
+            }
+            return splitHighlights(child.value, pattern).map(segment => segment.match
+                ? { type: 'element', tagName: 'mark', properties: { className: ['search-hit'] }, children: [{ type: 'text', value: segment.text }] }
+                : { type: 'text', value: segment.text });
+        });
+    };
+    walk(tree);
+};
@@ -0,0 +1,63 @@
+import { Note, Folder, SmartFolderQuery } from '../types';
+import { getDescendantIds, getFolderPath, isSmartFolder } from './folderService';
+import { SearchIndex, parseSearchQuery, isEmptyQuery, searchNotes } from './searchService';
+
+/**
+ * SMART FOLDERS
+ * A smart folder is a Folder carrying a `smartQuery`: the tab, tag, folder, day and search text
+ * of a view. It is stored and synced with the regular folders, and its contents are recomputed
+ * from the live notes every time, so it never goes stale. The main note list uses the same
+ * filter, which keeps a smart folder's count and the list it opens in agreement.
+ */
+
+export const toDayString = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDayString = (day: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+export const isQueryEmpty = (query: SmartFolderQuery) => !query.tag && !query.folderId && !query.date && !query.search?.trim();
+
+export const isSameQuery = (a: SmartFolderQuery, b: SmartFolderQuery) =>
+    (a.noteType || '') === (b.noteType || '') && (a.tag || '') === (b.tag || '') && (a.folderId || '') === (b.folderId || '') &&
+    (a.date || '') === (b.date || '') && (a.search || '').trim() === (b.search || '').trim();
+
+/**
+ * Applies a view's filters, in the order the UI presents them. A `type:` filter in the search text
+ * overrides the tab so a query can reach across note types. Search results come back ranked.
+ */
+export const filterNotes = (notes: Note[], query: SmartFolderQuery, context: { folders: Folder[]; index: SearchIndex }): Note[] => {
+    const parsed = parseSearchQuery(query.search || '');
+    const crossType = parsed.filters.some(f => f.field === 'type');
+    let result = query.noteType && !crossType ? notes.filter(n => n.type === query.noteType) : notes;
+    if (query.folderId) {
+        const folderIds = getDescendantIds(query.folderId, context.folders);
+        result = result.filter(n => n.folderId && folderIds.has(n.folderId));
+    }
+    if (query.tag) result = result.filter(n => n.tags.includes(query.tag!));
+    if (query.date) result = result.filter(n => toDayString(new Date(n.createdAt)) === query.date);
+    if (!isEmptyQuery(parsed)) {
+        const visible = new Set(result.map(n => n.id));
+        result = searchNotes(context.index, parsed, context.folders).map(r => r.note).filter(n => visible.has(n.id));
+    }
+    return result;
+};
+
+export const createSmartFolder = (name: string, query: SmartFolderQuery, folders: Folder[]): Folder => ({
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    order: folders.filter(isSmartFolder).length,
+    // Drop empty fields; Firestore rejects undefined values
+    smartQuery: Object.fromEntries(Object.entries(query).filter(([, v]) => v)) as SmartFolderQuery
+});
+
+// One-line summary for tooltips, e.g. `project · #infra · Ops › Infra · "deploy"`.
+export const describeSmartQuery = (query: SmartFolderQuery, folders: Folder[]) => [
+    query.noteType,
+    query.tag && `#${query.tag}`,
+    query.folderId && (getFolderPath(query.folderId, folders).map(f => f.name).join(' › ') || 'Missing folder'),
+    query.date && fromDayString(query.date)?.toLocaleDateString(),
+    query.search?.trim() && `"${query.search.trim()}"`
+].filter(Boolean).join(' · ');
@@ -0,0 +1,359 @@
+import { Note, Folder, NoteRevision, VaultConfig } from '../types';
+import { StorageBackend } from '../config';
+import { db } from './firebase';
+import {
+    collection, query, where, getDocs, getDoc, setDoc, doc, deleteDoc, writeBatch, runTransaction, onSnapshot, QuerySnapshot
+} from 'firebase/firestore';
+import { logTraffic } from './trafficService';
+import { getAllLocal, putLocal, putManyLocal, deleteLocal, deleteManyLocal, ownerKey } from './localDatabase';
+import { NoteConflictError, isStaleWrite } from './conflictService';
+
+/**
+ * STORAGE ADAPTER CONTRACT
+ * Every backend persists notes, folders, note revisions and the vault config scoped to an owner (null = guest).
+ * Deleting a note also deletes its revisions, so no history outlives the note.
+ * Inputs arrive already sanitized; ordering is applied by storageService.
+ * Shared backends must reject a save whose baseRevision is behind the stored note
+ * by throwing NoteConflictError; single-device backends may ignore it.
+ * Shared backends may also offer a live feed of changes made elsewhere (subscribeNotes/subscribeFolders).
+ */
+export interface SaveNoteOptions {
+    baseRevision?: number;
+}
+
+export type RecordChange<T> = { type: 'upsert'; record: T } | { type: 'remove'; id: string };
+export type Unsubscribe = () => void;
+
+export interface StorageAdapter {
+    readonly name: StorageBackend | string;
+    loadNotes(userId: string | null): Promise<Note[]>;
+    saveNote(note: Note, userId: string | null, options?: SaveNoteOptions): Promise<void>;
+    saveNotes(notes: Note[], userId: string | null): Promise<void>;
+    deleteNote(noteId: string, userId: string | null): Promise<void>;
+    loadFolders(userId: string | null): Promise<Folder[]>;
+    saveFolder(folder: Folder, userId: string | null): Promise<void>;
+    deleteFolder(folderId: string, userId: string | null): Promise<void>;
+    appendRevision(revision: NoteRevision, userId: string | null): Promise<void>;
+    loadRevisions(noteId: string, userId: string | null): Promise<NoteRevision[]>;
+    loadVaultConfig(userId: string | null): Promise<VaultConfig | null>;
+    saveVaultConfig(config: VaultConfig | null, userId: string | null): Promise<void>; // null removes the vault
+    subscribeNotes?(userId: string, onChange: (changes: RecordChange<Note>[]) => void): Unsubscribe;
+    subscribeFolders?(userId: string, onChange: (changes: RecordChange<Folder>[]) => void): Unsubscribe;
+}
+
+const upsertById = <T extends { id: string }>(list: T[], item: T): T[] => {
+    const idx = list.findIndex(i => i.id === item.id);
+    if (idx >= 0) list[idx] = item; else list.push(item);
+    return list;
+};
+
+/**
+ * FIRESTORE (default for signed-in accounts)
+ */
+// A write batch is capped at 500 operations; stay under it with headroom.
+export const FIRESTORE_BATCH_LIMIT = 450;
+
+// Echoes of this client's own pending writes are skipped; the first snapshot is logged as one subscribe.
+const watchCollection = <T extends { id: string }>(name: string, userId: string, onChange: (changes: RecordChange<T>[]) => void): Unsubscribe => {
+    if (!db) return () => {};
+    let primed = false;
+    return onSnapshot(query(collection(db, name), where('userId', '==', userId)), (snapshot: QuerySnapshot) => {
+        const changes = snapshot.docChanges().filter(c => !c.doc.metadata.hasPendingWrites);
+        if (!primed) {
+            primed = true;
+            logTraffic('WS', `firestore/${name}:subscribe`, 200, changes.length);
+        } else {
+            changes.forEach(c => logTraffic('WS', `firestore/${name}:${c.type}`, 200, JSON.stringify(c.doc.data()).length));
+        }
+        if (changes.length === 0) return;
+        onChange(changes.map(c => c.type === 'removed'
+            ? { type: 'remove', id: c.doc.id }
+            : { type: 'upsert', record: c.doc.data() as T }));
+    }, () => logTraffic('WS', `firestore/${name}`, 500, 0));
+};
+
+export const createFirestoreAdapter = (): StorageAdapter => ({
+    name: 'firestore',
+
+    // Load failures are thrown, never reported as an empty list, so callers cannot mistake an outage for "no notes".
+    async loadNotes(userId) {
+        if (!userId) return [];
+        if (!db) throw new Error('Firestore is not configured.');
+        try {
+            const snapshot = await getDocs(query(collection(db, 'notes'), where('userId', '==', userId)));
+            const notes = snapshot.docs.map(d => d.data() as Note);
+            logTraffic('GET', 'firestore/notes', 200, JSON.stringify(notes).length);
+            return notes;
+        } catch (e) {
+            logTraffic('GET', 'firestore/notes', 500, 0);
+            throw e;
+        }
+    },
+
+    async saveNote(note, userId, options = {}) {
+        const firestore = db;
+        if (!firestore || !userId) return;
+        try {
+            const ref = doc(firestore, 'notes', note.id);
+            if (options.baseRevision === undefined) {
+                await setDoc(ref, { ...note, userId });
+            } else {
+                await runTransaction(firestore, async (tx) => {
+                    const stored = await tx.get(ref);
+                    const remote = stored.exists() ? stored.data() as Note : undefined;
+                    if (remote && isStaleWrite(remote, options.baseRevision)) throw new NoteConflictError(remote);
+                    tx.set(ref, { ...note, userId });
+                });
+            }
+            logTraffic('POST', 'firestore/notes', 200, JSON.stringify(note).length);
+        } catch (e) {
+            logTraffic('POST', 'firestore/notes', e instanceof NoteConflictError ? 409 : 500, 0);
+            throw e;
+        }
+    },
+
+    async saveNotes(notes, userId) {
+        const firestore = db;
+        if (!firestore || !userId) return;
+        for (let i = 0; i < notes.length; i += FIRESTORE_BATCH_LIMIT) {
+            const chunk = notes.slice(i, i + FIRESTORE_BATCH_LIMIT);
+            const batch = writeBatch(firestore);
+            chunk.forEach(note => batch.set(doc(firestore, 'notes', note.id), { ...note, userId }));
+            try {
+                await batch.commit();
+                logTraffic('POST', 'firestore/notes:batch', 200, JSON.stringify(chunk).length);
+            } catch (e) {
+                logTraffic('POST', 'firestore/notes:batch', 500, 0);
+                throw e;
+            }
+        }
+    },
+
+    async deleteNote(noteId, userId) {
+        const firestore = db;
+        if (!firestore || !userId) return;
+        await deleteDoc(doc(firestore, 'notes', noteId));
+        logTraffic('DELETE', 'firestore/notes', 200, 0);
+        const revisions = await getDocs(query(collection(firestore, 'note_revisions'), where('userId', '==', userId), where('noteId', '==', noteId)));
+        for (let i = 0; i < revisions.docs.length; i += FIRESTORE_BATCH_LIMIT) {
+            const batch = writeBatch(firestore);
+            revisions.docs.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach(d => batch.delete(d.ref));
+            await batch.commit();
+        }
+        if (revisions.size > 0) logTraffic('DELETE', 'firestore/note_revisions', 200, 0);
+    },
+
+    async loadFolders(userId) {
+        if (!userId) return [];
+        if (!db) throw new Error('Firestore is not configured.');
+        const snapshot = await getDocs(query(collection(db, 'folders'), where('userId', '==', userId)));
+        return snapshot.docs.map(d => d.data() as Folder);
+    },
+
+    async saveFolder(folder, userId) {
+        if (!db || !userId) return;
+        await setDoc(doc(db, 'folders', folder.id), { ...folder, userId });
+    },
+
+    async deleteFolder(folderId, userId) {
+        if (!db || !userId) return;
+        await deleteDoc(doc(db, 'folders', folderId));
+    },
+
+    async appendRevision(revision, userId) {
+        if (!db || !userId) return;
+        await setDoc(doc(db, 'note_revisions', revision.id), { ...revision, userId });
+        logTraffic('POST', 'firestore/note_revisions', 200, JSON.stringify(revision).length);
+    },
+
+    async loadRevisions(noteId, userId) {
+        if (!db || !userId) return [];
+        const snapshot = await getDocs(query(collection(db, 'note_revisions'), where('userId', '==', userId), where('noteId', '==', noteId)));
+        logTraffic('GET', 'firestore/note_revisions', 200, 0);
+        return snapshot.docs.map(d => d.data() as NoteRevision);
+    },
+
+    async loadVaultConfig(userId) {
+        if (!db || !userId) return null;
+        const snapshot = await getDoc(doc(db, 'vaults', userId));
+        return snapshot.exists() ? (snapshot.data().config as VaultConfig) : null;
+    },
+
+    async saveVaultConfig(config, userId) {
+        if (!db || !userId) return;
+        if (config) await setDoc(doc(db, 'vaults', userId), { userId, config });
+        else await deleteDoc(doc(db, 'vaults', userId));
+    },
+
+    subscribeNotes: (userId, onChange) => watchCollection<Note>('notes', userId, onChange),
+    subscribeFolders: (userId, onChange) => watchCollection<Folder>('folders', userId, onChange)
+});
+
+/**
+ * SESSION STORAGE (default for guests, wiped when the tab closes)
+ */
+const GUEST_KEY = 'ideaweaver_guest_session';
+const GUEST_FOLDERS_KEY = 'ideaweaver_guest_folders';
+const GUEST_REVISIONS_KEY = 'ideaweaver_guest_revisions';
+const GUEST_VAULT_KEY = 'ideaweaver_guest_vault';
+
+const sessionKeys = (userId: string | null) => userId
+    ? { notes: `${GUEST_KEY}_${userId}`, folders: `${GUEST_FOLDERS_KEY}_${userId}`, revisions: `${GUEST_REVISIONS_KEY}_${userId}`, vault: `${GUEST_VAULT_KEY}_${userId}` }
+    : { notes: GUEST_KEY, folders: GUEST_FOLDERS_KEY, revisions: GUEST_REVISIONS_KEY, vault: GUEST_VAULT_KEY };
+
+const readVaultConfig = (storage: Storage, key: string): VaultConfig | null => {
+    try {
+        return JSON.parse(storage.getItem(key) || 'null');
+    } catch {
+        return null;
+    }
+};
+
+const writeVaultConfig = (storage: Storage, key: string, config: VaultConfig | null) => {
+    if (config) storage.setItem(key, JSON.stringify(config));
+    else storage.removeItem(key);
+};
+
+const readSession = <T>(key: string): T[] => {
+    try {
+        return JSON.parse(sessionStorage.getItem(key) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const createSessionStorageAdapter = (): StorageAdapter => ({
+    name: 'session',
+
+    async loadNotes(userId) {
+        return readSession<Note>(sessionKeys(userId).notes);
+    },
+
+    async saveNote(note, userId) {
+        const key = sessionKeys(userId).notes;
+        sessionStorage.setItem(key, JSON.stringify(upsertById(readSession<Note>(key), note)));
+    },
+
+    async saveNotes(notes, userId) {
+        const key = sessionKeys(userId).notes;
+        const merged = notes.reduce((list, note) => upsertById(list, note), readSession<Note>(key));
+        sessionStorage.setItem(key, JSON.stringify(merged));
+    },
+
+    async deleteNote(noteId, userId) {
+        const keys = sessionKeys(userId);
+        sessionStorage.setItem(keys.notes, JSON.stringify(readSession<Note>(keys.notes).filter(n => n.id !== noteId)));
+        sessionStorage.setItem(keys.revisions, JSON.stringify(readSession<NoteRevision>(keys.revisions).filter(r => r.noteId !== noteId)));
+    },
+
+    async loadFolders(userId) {
+        return readSession<Folder>(sessionKeys(userId).folders);
+    },
+
+    async saveFolder(folder, userId) {
+        const key = sessionKeys(userId).folders;
+        sessionStorage.setItem(key, JSON.stringify(upsertById(readSession<Folder>(key), folder)));
+    },
+
+    async deleteFolder(folderId, userId) {
+        const key = sessionKeys(userId).folders;
+        sessionStorage.setItem(key, JSON.stringify(readSession<Folder>(key).filter(f => f.id !== folderId)));
+    },
+
+    async appendRevision(revision, userId) {
+        const key = sessionKeys(userId).revisions;
+        sessionStorage.setItem(key, JSON.stringify(upsertById(readSession<NoteRevision>(key), revision)));
+    },
+
+    async loadRevisions(noteId, userId) {
+        return readSession<NoteRevision>(sessionKeys(userId).revisions).filter(r => r.noteId === noteId);
+    },
+
+    async loadVaultConfig(userId) {
+        return readVaultConfig(sessionStorage, sessionKeys(userId).vault);
+    },
+
+    async saveVaultConfig(config, userId) {
+        writeVaultConfig(sessionStorage, sessionKeys(userId).vault, config);
+    }
+});
+
+/**
+ * INDEXEDDB (browser-local persistence that survives reloads; no server required)
+ */
+export const localVaultKey = (userId: string | null) => `weavenote_vault_${ownerKey(userId)}`;
+
+export const deleteLocalRevisions = async (noteId: string, userId: string | null) => {
+    const revisions = await getAllLocal<NoteRevision>('revisions', userId);
+    await deleteManyLocal('revisions', revisions.filter(r => r.noteId === noteId).map(r => r.id), userId);
+};
+
+export const createIndexedDBAdapter = (): StorageAdapter => ({
+    name: 'indexeddb',
+    loadNotes: (userId) => getAllLocal<Note>('notes', userId),
+    saveNote: (note, userId) => putLocal('notes', note, userId),
+    saveNotes: (notes, userId) => putManyLocal('notes', notes, userId),
+    deleteNote: async (noteId, userId) => {
+        await deleteLocal('notes', noteId, userId);
+        await deleteLocalRevisions(noteId, userId);
+    },
+    loadFolders: (userId) => getAllLocal<Folder>('folders', userId),
+    saveFolder: (folder, userId) => putLocal('folders', folder, userId),
+    deleteFolder: (folderId, userId) => deleteLocal('folders', folderId, userId),
+    appendRevision: (revision, userId) => putLocal('revisions', revision, userId),
+    loadRevisions: async (noteId, userId) => (await getAllLocal<NoteRevision>('revisions', userId)).filter(r => r.noteId === noteId),
+    loadVaultConfig: async (userId) => readVaultConfig(localStorage, localVaultKey(userId)),
+    saveVaultConfig: async (config, userId) => writeVaultConfig(localStorage, localVaultKey(userId), config)
+});
+
+/**
+ * IN-MEMORY (tests and throwaway sessions)
+ */
+export const createMemoryAdapter = (seed: { notes?: Note[]; folders?: Folder[]; userId?: string | null } = {}): StorageAdapter => {
+    const notes = new Map<string, Map<string, Note>>();
+    const folders = new Map<string, Map<string, Folder>>();
+    const revisions = new Map<string, Map<string, NoteRevision>>();
+    const vaults = new Map<string, VaultConfig>();
+    const bucket = <T>(store: Map<string, Map<string, T>>, userId: string | null) => {
+        const key = ownerKey(userId);
+        if (!store.has(key)) store.set(key, new Map());
+        return store.get(key)!;
+    };
+    const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+    (seed.notes || []).forEach(n => bucket(notes, seed.userId || null).set(n.id, clone(n)));
+    (seed.folders || []).forEach(f => bucket(folders, seed.userId || null).set(f.id, clone(f)));
+
+    return {
+        name: 'memory',
+        async loadNotes(userId) { return Array.from(bucket(notes, userId).values()).map(clone); },
+        async saveNote(note, userId, options = {}) {
+            const stored = bucket(notes, userId).get(note.id);
+            if (stored && isStaleWrite(stored, options.baseRevision)) throw new NoteConflictError(clone(stored));
+            bucket(notes, userId).set(note.id, clone(note));
+        },
+        async saveNotes(list, userId) { list.forEach(n => bucket(notes, userId).set(n.id, clone(n))); },
+        async deleteNote(noteId, userId) {
+            bucket(notes, userId).delete(noteId);
+            const history = bucket(revisions, userId);
+            history.forEach((r, id) => { if (r.noteId === noteId) history.delete(id); });
+        },
+        async loadFolders(userId) { return Array.from(bucket(folders, userId).values()).map(clone); },
+        async saveFolder(folder, userId) { bucket(folders, userId).set(folder.id, clone(folder)); },
+        async deleteFolder(folderId, userId) { bucket(folders, userId).delete(folderId); },
+        async appendRevision(revision, userId) { bucket(revisions, userId).set(revision.id, clone(revision)); },
+        async loadRevisions(noteId, userId) { return Array.from(bucket(revisions, userId).values()).filter(r => r.noteId === noteId).map(clone); },
+        async loadVaultConfig(userId) { return vaults.has(ownerKey(userId)) ? clone(vaults.get(ownerKey(userId))!) : null; },
+        async saveVaultConfig(config, userId) { if (config) vaults.set(ownerKey(userId), clone(config)); else vaults.delete(ownerKey(userId)); }
+    };
+};
+
+export const createStorageAdapter = (backend: StorageBackend): StorageAdapter => {
+    switch (backend) {
+        case 'session': return createSessionStorageAdapter();
+        case 'indexeddb': return createIndexedDBAdapter();
+        case 'memory': return createMemoryAdapter();
+        case 'firestore':
+        default: return createFirestoreAdapter();
+    }
+};
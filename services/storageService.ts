@@ -1,14 +1,40 @@
 
-import { Note, Folder, UserUsageStats } from '../types';
-import JSZip from 'jszip';
-import { db } from './firebase';
-import { 
-    collection, query, where, getDocs, setDoc, doc, deleteDoc, writeBatch
-} from 'firebase/firestore';
-import { logTraffic } from './trafficService';
+import { Note, Folder, NoteRevision, UserUsageStats } from '../types';
+import { STORAGE_BACKEND, GUEST_STORAGE_BACKEND } from '../config';
+import { StorageAdapter, RecordChange, Unsubscribe, createStorageAdapter, FIRESTORE_BATCH_LIMIT } from './storageAdapters';
+import { createOfflineFirstAdapter, getSyncStatus } from './syncService';
+import { isIndexedDBAvailable } from './localDatabase';
+import { NoteConflictError, reportConflict, rememberSyncedBase } from './conflictService';
+import { createRevision, revisionFingerprint, sortRevisions } from './revisionService';
+import { ParsedBackup, ImportMode, createBackup, MAX_FIELD_LENGTH } from './backupService';
+import { buildVaultZip, VaultExportOptions } from './vaultService';
+import { createEncryptingAdapter, createVaultConfig, setVaultConfig, getVaultState } from './cryptoService';
+import { logAudit } from './authService';
+import { migrateNote, migrateFolder, noteNeedsMigration, folderNeedsMigration } from './migrationService';
+import { getDescendantIds } from './folderService';
+import { isRetentionExpired } from './retentionService';
 
-const GUEST_KEY = 'ideaweaver_guest_session';
-const GUEST_FOLDERS_KEY = 'ideaweaver_guest_folders';
+/**
+ * BACKEND SELECTION
+ * Resolved once at startup from config; callers never branch on guest vs account.
+ * A custom adapter (self-hosted API, test double) can be swapped in via setStorageAdapters.
+ * Remote (Firestore) accounts get a local IndexedDB replica + outbox so edits survive going offline.
+ * Account adapters are wrapped for vault encryption, which is a pass-through until a vault is enabled.
+ */
+const createAccountAdapter = (): StorageAdapter => {
+    const adapter = createStorageAdapter(STORAGE_BACKEND);
+    return createEncryptingAdapter(STORAGE_BACKEND === 'firestore' && isIndexedDBAvailable() ? createOfflineFirstAdapter(adapter) : adapter);
+};
+
+let accountAdapter: StorageAdapter = createAccountAdapter();
+let guestAdapter: StorageAdapter = createStorageAdapter(GUEST_STORAGE_BACKEND);
+
+export const setStorageAdapters = (adapters: { account?: StorageAdapter; guest?: StorageAdapter }) => {
+    if (adapters.account) accountAdapter = createEncryptingAdapter(adapters.account);
+    if (adapters.guest) guestAdapter = adapters.guest;
+};
+
+export const getStorageAdapter = (userId: string | null): StorageAdapter => userId ? accountAdapter : guestAdapter;
 
 /**
  * XSS & INJECTION PROTECTION
@@ -19,7 +45,7 @@ const sanitizeInput = (val: any): any => {
             .replace(/<script\b[^>]*>([\s\S]*?)<\/script>/gim, "")
             .replace(/<iframe\b[^>]*>([\s\S]*?)<\/iframe>/gim, "")
             .replace(/on\w+="[^"]*"/gim, "") 
-            .substring(0, 50000);
+            .substring(0, MAX_FIELD_LENGTH);
     }
     if (Array.isArray(val)) return val.map(sanitizeInput);
     if (val !== null && typeof val === 'object') {
@@ -30,114 +56,544 @@ const sanitizeInput = (val: any): any => {
     return val;
 };
 
+// A sealed payload is opaque ciphertext: trimming or filtering it would make a locked note undecryptable.
+// Plaintext is sanitized here before the encrypting adapter seals it.
 const sanitizeForFirestore = <T>(data: T): T => {
-    const cleaned = JSON.parse(JSON.stringify(data));
-    return sanitizeInput(cleaned);
+    const { encrypted, ...rest } = JSON.parse(JSON.stringify(data));
+    const cleaned = sanitizeInput(rest);
+    return encrypted ? { ...cleaned, encrypted } : cleaned;
 };
 
-export const loadNotes = async (userId: string | null): Promise<Note[]> => {
-    if (!userId) {
-        const stored = sessionStorage.getItem(GUEST_KEY);
-        return stored ? JSON.parse(stored) : [];
-    }
-    if (!db) return [];
+/**
+ * REVISION TRACKING
+ * App state can hold a note object older than what was last written, so the
+ * latest revision per note is tracked here and each save bumps it by one.
+ */
+const knownRevisions = new Map<string, number>();
+
+// Fingerprint of the last persisted user-editable state; a revision is only recorded when it changes.
+const lastFingerprints = new Map<string, string>();
+// Notes written before history existed: their loaded state is recorded as revision 0 on first edit.
+const legacyBaselines = new Map<string, Note>();
+
+const trackLoadedNote = (note: Note) => {
+    knownRevisions.set(note.id, Math.max(knownRevisions.get(note.id) || 0, note.revision || 0));
+    lastFingerprints.set(note.id, revisionFingerprint(note));
+    if (!note.revision) legacyBaselines.set(note.id, note);
+    rememberSyncedBase(note);
+};
+
+const recordRevision = async (note: Note, userId: string | null) => {
+    const fingerprint = revisionFingerprint(note);
+    if (lastFingerprints.get(note.id) === fingerprint) return;
+    lastFingerprints.set(note.id, fingerprint);
+    const adapter = getStorageAdapter(userId);
     try {
-        const q = query(collection(db, 'notes'), where('userId', '==', userId));
-        const snapshot = await getDocs(q);
-        const notes = snapshot.docs.map(d => d.data() as Note);
-        logTraffic('GET', 'firestore/notes', 200, JSON.stringify(notes).length);
-        return notes.sort((a, b) => b.createdAt - a.createdAt);
+        const baseline = legacyBaselines.get(note.id);
+        if (baseline) {
+            legacyBaselines.delete(note.id);
+            await adapter.appendRevision(createRevision(baseline, 0), userId);
+        }
+        await adapter.appendRevision(createRevision(note, note.revision || 0), userId);
     } catch (e) {
-        logTraffic('GET', 'firestore/notes', 500, 0);
-        return [];
+        console.warn('Failed to record note revision', e);
     }
 };
 
-export const saveNote = async (note: Note, userId: string | null) => {
-    const cleanNote = sanitizeForFirestore(note);
-    if (!userId) {
-        const notes = await loadNotes(null);
-        const idx = notes.findIndex(n => n.id === cleanNote.id);
-        if (idx >= 0) notes[idx] = cleanNote; else notes.push(cleanNote);
-        sessionStorage.setItem(GUEST_KEY, JSON.stringify(notes));
-        return;
-    }
-    if (!db) return;
+/**
+ * SCHEMA UPGRADES
+ * Documents are migrated to the current schema as they are read. The stored copies are
+ * rewritten lazily: on the next save, or in bulk via persistSchemaMigrations.
+ */
+const outdatedNoteIds = new Set<string>();
+const outdatedFolderIds = new Set<string>();
+
+const upgradeNote = (note: Note): Note => {
+    if (!noteNeedsMigration(note)) return note;
+    outdatedNoteIds.add(note.id);
+    return migrateNote(note);
+};
+
+const upgradeFolder = (folder: Folder): Folder => {
+    if (!folderNeedsMigration(folder)) return folder;
+    outdatedFolderIds.add(folder.id);
+    return migrateFolder(folder);
+};
+
+export const loadNotes = async (userId: string | null): Promise<Note[]> => {
+    const notes = (await getStorageAdapter(userId).loadNotes(userId)).map(upgradeNote);
+    notes.forEach(trackLoadedNote);
+    return notes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Persists a note. A concurrent edit from another device is not thrown to the
+ * caller; it is published via CONFLICT_EVENT for the merge dialog to resolve.
+ */
+export const saveNote = async (note: Note, userId: string | null): Promise<Note> => {
+    const baseRevision = knownRevisions.get(note.id) ?? note.revision ?? 0;
+    const next = sanitizeForFirestore(migrateNote({ ...note, revision: baseRevision + 1, updatedAt: Date.now() }));
+    knownRevisions.set(note.id, next.revision!);
+    outdatedNoteIds.delete(note.id);
     try {
-        await setDoc(doc(db, 'notes', cleanNote.id), { ...cleanNote, userId });
-        logTraffic('POST', 'firestore/notes', 200, JSON.stringify(cleanNote).length);
+        await getStorageAdapter(userId).saveNote(next, userId, { baseRevision });
+        // A queued write becomes the merge base when the outbox confirms it; a direct write is confirmed now
+        if (!getSyncStatus().pendingNoteIds.includes(next.id)) rememberSyncedBase(next);
+        await recordRevision(next, userId);
+        return next;
     } catch (e) {
-        logTraffic('POST', 'firestore/notes', 500, 0);
+        if (e instanceof NoteConflictError) {
+            knownRevisions.set(note.id, baseRevision);
+            reportConflict({ local: next, remote: e.remote });
+            return next;
+        }
         throw e;
     }
 };
 
+/**
+ * Writes the user's merge on top of the remote version that caused the conflict.
+ */
+export const resolveNoteConflict = async (merged: Note, remote: Note, userId: string | null): Promise<Note> => {
+    acceptRemoteNote(remote);
+    return saveNote(merged, userId);
+};
+
+/**
+ * Drops the local side of a conflict and adopts the remote version as the new base.
+ */
+export const acceptRemoteNote = (remote: Note) => {
+    knownRevisions.set(remote.id, remote.revision || 0);
+    rememberSyncedBase(remote);
+};
+
+export const loadNoteRevisions = async (noteId: string, userId: string | null): Promise<NoteRevision[]> => {
+    const revisions = await getStorageAdapter(userId).loadRevisions(noteId, userId);
+    return sortRevisions(revisions);
+};
+
 export const deleteNote = async (noteId: string, userId: string | null) => {
-    if (!userId) {
-        const notes = await loadNotes(null);
-        sessionStorage.setItem(GUEST_KEY, JSON.stringify(notes.filter(n => n.id !== noteId)));
-        return;
+    await getStorageAdapter(userId).deleteNote(noteId, userId);
+};
+
+/**
+ * Drops trashed notes past their retention from a loaded list. Firestore accounts are purged by
+ * the scheduled job (scripts/purgeTrash.mjs), so their expired notes are only hidden here; backends
+ * the job cannot reach are purged in the background so loading never waits on the deletes.
+ */
+export const purgeExpiredTrash = (notes: Note[], retentionDays: number, userId: string | null, actor: string): Note[] => {
+    const now = Date.now();
+    const expired = new Set(notes.filter(n => isRetentionExpired(n, retentionDays, now)).map(n => n.id));
+    if (expired.size > 0 && !(userId && STORAGE_BACKEND === 'firestore')) {
+        const adapter = getStorageAdapter(userId);
+        Promise.all([...expired].map(id => adapter.deleteNote(id, userId)))
+            .then(() => logAudit('TRASH_PURGE', actor, userId || 'guest', `${expired.size} notes past ${retentionDays} days`))
+            .catch(e => console.warn("Trash purge deferred", e));
     }
-    if (!db) return;
-    await deleteDoc(doc(db, 'notes', noteId));
-    logTraffic('DELETE', 'firestore/notes', 200, 0);
+    return notes.filter(n => !expired.has(n.id));
 };
 
 export const loadFolders = async (userId: string | null): Promise<Folder[]> => {
-    if (!userId) return JSON.parse(sessionStorage.getItem(GUEST_FOLDERS_KEY) || '[]');
-    if (!db) return [];
-    const snapshot = await getDocs(query(collection(db, 'folders'), where('userId', '==', userId)));
-    return snapshot.docs.map(d => d.data() as Folder).sort((a,b) => a.order - b.order);
+    const folders = (await getStorageAdapter(userId).loadFolders(userId)).map(upgradeFolder);
+    return folders.sort((a, b) => a.order - b.order);
 };
 
 export const saveFolder = async (folder: Folder, userId: string | null) => {
-    if (!userId) {
-        const folders = await loadFolders(null);
-        const idx = folders.findIndex(f => f.id === folder.id);
-        if (idx >= 0) folders[idx] = folder; else folders.push(folder);
-        sessionStorage.setItem(GUEST_FOLDERS_KEY, JSON.stringify(folders));
-        return;
+    outdatedFolderIds.delete(folder.id);
+    await getStorageAdapter(userId).saveFolder(sanitizeForFirestore(migrateFolder(folder)), userId);
+};
+
+/**
+ * Rewrites loaded notes and folders that were upgraded in memory but are still stored
+ * in an older schema. Returns how many documents were written.
+ */
+export const persistSchemaMigrations = async (notes: Note[], folders: Folder[], userId: string | null) => {
+    const adapter = getStorageAdapter(userId);
+    const staleFolders = folders.filter(f => outdatedFolderIds.has(f.id));
+    const staleNotes = notes.filter(n => outdatedNoteIds.has(n.id) && !n.encrypted);
+    for (const folder of staleFolders) {
+        await adapter.saveFolder(sanitizeForFirestore(folder), userId);
+        outdatedFolderIds.delete(folder.id);
     }
-    if (!db) return;
-    await setDoc(doc(db, 'folders', folder.id), { ...folder, userId });
+    await writeNotesInChunks(staleNotes, userId, new Set());
+    staleNotes.forEach(n => outdatedNoteIds.delete(n.id));
+    return { notes: staleNotes.length, folders: staleFolders.length };
 };
 
 export const deleteFolder = async (folderId: string, userId: string | null) => {
-    if (!userId) {
-        const folders = await loadFolders(null);
-        sessionStorage.setItem(GUEST_FOLDERS_KEY, JSON.stringify(folders.filter(f => f.id !== folderId)));
-        return;
+    await getStorageAdapter(userId).deleteFolder(folderId, userId);
+};
+
+/**
+ * REAL-TIME UPDATES
+ * Backends with a live feed push edits made on other devices. Notes no newer than what this
+ * device already loaded or wrote are dropped. Callers call acceptRemoteNote for each note they
+ * apply; a note they hold back (open in the editor) keeps its old base and conflicts on save.
+ */
+export const isRemoteNoteNewer = (note: Note) => (note.revision || 0) > (knownRevisions.get(note.id) || 0);
+
+export const subscribeToNotes = (userId: string | null, onChange: (changes: RecordChange<Note>[]) => void): Unsubscribe => {
+    const adapter = getStorageAdapter(userId);
+    if (!userId || !adapter.subscribeNotes) return () => {};
+    return adapter.subscribeNotes(userId, changes => {
+        const fresh = changes
+            .filter(c => c.type === 'remove' || isRemoteNoteNewer(c.record))
+            .map(c => c.type === 'upsert' ? { ...c, record: upgradeNote(c.record) } : c);
+        if (fresh.length > 0) onChange(fresh);
+    });
+};
+
+export const subscribeToFolders = (userId: string | null, onChange: (changes: RecordChange<Folder>[]) => void): Unsubscribe => {
+    const adapter = getStorageAdapter(userId);
+    if (!userId || !adapter.subscribeFolders) return () => {};
+    return adapter.subscribeFolders(userId, changes => onChange(changes.map(c => c.type === 'upsert' ? { ...c, record: upgradeFolder(c.record) } : c)));
+};
+
+export const applyRecordChanges = <T extends { id: string }>(list: T[], changes: RecordChange<T>[]): T[] => {
+    let next = list;
+    changes.forEach(change => {
+        if (change.type === 'remove') {
+            next = next.filter(item => item.id !== change.id);
+        } else {
+            const exists = next.some(item => item.id === change.record.id);
+            next = exists ? next.map(item => item.id === change.record.id ? change.record : item) : [change.record, ...next];
+        }
+    });
+    return next;
+};
+
+/**
+ * BULK SYNC
+ * Pushes the whole vault in batch-sized chunks. A failing chunk is retried with backoff;
+ * chunks that still fail are listed in the summary so the rest of the vault still lands.
+ */
+const SYNC_CHUNK_SIZE = FIRESTORE_BATCH_LIMIT;
+const SYNC_MAX_ATTEMPTS = 3;
+const SYNC_RETRY_MS = 1000;
+
+export interface SyncProgress {
+    written: number;
+    failed: number;
+    total: number;
+    chunk: number;
+    chunks: number;
+}
+
+export interface SyncSummary {
+    total: number;
+    written: number;
+    failedNoteIds: string[];
+    retries: number;
+    errors: string[];
+}
+
+export const syncAllNotes = async (
+    notes: Note[],
+    userId: string,
+    onProgress?: (progress: SyncProgress) => void
+): Promise<SyncSummary> => {
+    const summary: SyncSummary = { total: notes.length, written: 0, failedNoteIds: [], retries: 0, errors: [] };
+    if (!userId) return summary;
+
+    const adapter = getStorageAdapter(userId);
+    const chunks = Math.ceil(notes.length / SYNC_CHUNK_SIZE);
+    for (let c = 0; c < chunks; c++) {
+        const chunk = notes.slice(c * SYNC_CHUNK_SIZE, (c + 1) * SYNC_CHUNK_SIZE).map(n => sanitizeForFirestore(n));
+        for (let attempt = 1; attempt <= SYNC_MAX_ATTEMPTS; attempt++) {
+            try {
+                await adapter.saveNotes(chunk, userId);
+                summary.written += chunk.length;
+                break;
+            } catch (e: any) {
+                if (attempt === SYNC_MAX_ATTEMPTS) {
+                    summary.failedNoteIds.push(...chunk.map(n => n.id));
+                    summary.errors.push(`Batch ${c + 1}/${chunks}: ${e?.message || String(e)}`);
+                } else {
+                    summary.retries++;
+                    await new Promise(resolve => setTimeout(resolve, SYNC_RETRY_MS * 2 ** (attempt - 1)));
+                }
+            }
+        }
+        onProgress?.({ written: summary.written, failed: summary.failedNoteIds.length, total: notes.length, chunk: c + 1, chunks });
+    }
+    return summary;
+};
+
+/**
+ * BACKUP RESTORE
+ * merge: backup copies overwrite notes/folders with the same id.
+ * skip: ids already in the vault are left untouched.
+ * replace: anything not in the backup is removed first.
+ */
+const IMPORT_CHUNK_SIZE = 100;
+
+export interface ImportSummary {
+    notesWritten: number;
+    foldersWritten: number;
+    skipped: number;
+    removed: number;
+}
+
+// Stamps each copy past any revision this device has seen so it is not mistaken for a stale write later.
+const writeNotesInChunks = async (notes: Note[], userId: string | null, existingIds: Set<string>, onProgress?: (written: number) => void) => {
+    const adapter = getStorageAdapter(userId);
+    let written = 0;
+    for (let i = 0; i < notes.length; i += IMPORT_CHUNK_SIZE) {
+        const chunk = notes.slice(i, i + IMPORT_CHUNK_SIZE).map(note => {
+            const revision = Math.max(knownRevisions.get(note.id) || 0, note.revision || 0) + 1;
+            return sanitizeForFirestore(migrateNote({ ...note, revision, updatedAt: Date.now() }));
+        });
+        await adapter.saveNotes(chunk, userId);
+        for (const note of chunk.filter(n => existingIds.has(n.id))) await recordRevision(note, userId);
+        chunk.forEach(trackLoadedNote);
+        written += chunk.length;
+        onProgress?.(written);
     }
-    if (!db) return;
-    await deleteDoc(doc(db, 'folders', folderId));
 };
 
-export const syncAllNotes = async (notes: Note[], userId: string) => {
-    if (!db || !userId) return;
-    const batch = writeBatch(db);
-    notes.slice(0, 490).forEach(note => {
-        batch.set(doc(db, 'notes', note.id), sanitizeForFirestore({ ...note, userId }));
+export const importBackup = async (
+    backup: ParsedBackup,
+    existing: { notes: Note[]; folders: Folder[] },
+    mode: ImportMode,
+    userId: string | null,
+    onProgress?: (done: number, total: number) => void
+): Promise<ImportSummary> => {
+    const adapter = getStorageAdapter(userId);
+    const noteIds = new Set(existing.notes.map(n => n.id));
+    const folderIds = new Set(existing.folders.map(f => f.id));
+    const summary: ImportSummary = { notesWritten: 0, foldersWritten: 0, skipped: 0, removed: 0 };
+
+    const notes = mode === 'skip' ? backup.notes.filter(n => !noteIds.has(n.id)) : backup.notes;
+    const folders = mode === 'skip' ? backup.folders.filter(f => !folderIds.has(f.id)) : backup.folders;
+    summary.skipped = (backup.notes.length - notes.length) + (backup.folders.length - folders.length);
+
+    if (mode === 'replace') {
+        const keepNotes = new Set(backup.notes.map(n => n.id));
+        const keepFolders = new Set(backup.folders.map(f => f.id));
+        for (const note of existing.notes.filter(n => !keepNotes.has(n.id))) {
+            await adapter.deleteNote(note.id, userId);
+            summary.removed++;
+        }
+        for (const folder of existing.folders.filter(f => !keepFolders.has(f.id))) {
+            await adapter.deleteFolder(folder.id, userId);
+            summary.removed++;
+        }
+    }
+
+    const total = notes.length + folders.length;
+    onProgress?.(0, total);
+
+    for (const folder of folders) {
+        await adapter.saveFolder(sanitizeForFirestore(migrateFolder(folder)), userId);
+        summary.foldersWritten++;
+    }
+    onProgress?.(summary.foldersWritten, total);
+
+    await writeNotesInChunks(notes, userId, noteIds, written => {
+        summary.notesWritten = written;
+        onProgress?.(summary.foldersWritten + written, total);
     });
-    await batch.commit();
+
+    return summary;
+};
+
+/**
+ * FOLDER DELETION
+ * Deleting a folder decides what happens to its notes (move, unfile or trash) and writes every
+ * affected note in one batch. Subfolders are either deleted along with it or moved up a level.
+ * The returned snapshot lets the caller undo the whole operation.
+ */
+export type FolderNoteAction = { kind: 'move'; targetId: string } | { kind: 'unfile' } | { kind: 'trash' };
+
+export interface FolderDeletion {
+    deleted: Folder[];
+    reparented: Folder[]; // Subfolders as they were before moving up
+    notes: Pick<Note, 'id' | 'folderId' | 'isDeleted' | 'deletedAt'>[]; // Affected notes as they were
+}
+
+export interface FolderDeletionResult {
+    folders: Folder[];
+    notes: Note[];
+    undo: FolderDeletion;
+}
+
+export const deleteFolderWithNotes = async (
+    folderId: string,
+    action: FolderNoteAction,
+    includeSubfolders: boolean,
+    existing: { notes: Note[]; folders: Folder[] },
+    userId: string | null
+): Promise<FolderDeletionResult> => {
+    const adapter = getStorageAdapter(userId);
+    const target = existing.folders.find(f => f.id === folderId);
+    if (!target) throw new Error('Folder not found.');
+    const deletedIds = includeSubfolders ? getDescendantIds(folderId, existing.folders) : new Set([folderId]);
+    if (action.kind === 'move' && deletedIds.has(action.targetId)) throw new Error('Notes cannot be moved into a folder that is being deleted.');
+
+    const deleted = existing.folders.filter(f => deletedIds.has(f.id));
+    const reparented = includeSubfolders ? [] : existing.folders.filter(f => f.parentId === folderId);
+    const affected = existing.notes.filter(n => n.folderId && deletedIds.has(n.folderId));
+    const now = Date.now();
+
+    const updatedNotes = affected.map(note => {
+        if (action.kind === 'move') return { ...note, folderId: action.targetId };
+        if (action.kind === 'trash') return { ...note, folderId: undefined, isDeleted: true, deletedAt: note.isDeleted ? note.deletedAt : now };
+        return { ...note, folderId: undefined };
+    });
+    const movedUp = reparented.map(f => ({ ...f, parentId: target.parentId }));
+
+    await writeNotesInChunks(updatedNotes, userId, new Set(affected.map(n => n.id)));
+    for (const folder of movedUp) await adapter.saveFolder(sanitizeForFirestore(folder), userId);
+    for (const folder of deleted) await adapter.deleteFolder(folder.id, userId);
+
+    const changedNotes = new Map(updatedNotes.map(n => [n.id, n]));
+    const changedFolders = new Map(movedUp.map(f => [f.id, f]));
+    return {
+        folders: existing.folders.filter(f => !deletedIds.has(f.id)).map(f => changedFolders.get(f.id) || f),
+        notes: existing.notes.map(n => changedNotes.get(n.id) || n),
+        undo: {
+            deleted,
+            reparented,
+            notes: affected.map(({ id, folderId, isDeleted, deletedAt }) => ({ id, folderId, isDeleted, deletedAt }))
+        }
+    };
+};
+
+// Restores folders and puts affected notes back, keeping any edits made to them since.
+export const undoFolderDeletion = async (undo: FolderDeletion, currentNotes: Note[], userId: string | null): Promise<Note[]> => {
+    const adapter = getStorageAdapter(userId);
+    for (const folder of [...undo.deleted, ...undo.reparented]) await adapter.saveFolder(sanitizeForFirestore(folder), userId);
+    const before = new Map(undo.notes.map(n => [n.id, n]));
+    const restored = currentNotes
+        .filter(n => before.has(n.id))
+        .map(n => ({ ...n, ...before.get(n.id)! }));
+    await writeNotesInChunks(restored, userId, new Set(restored.map(n => n.id)));
+    return restored;
 };
 
-export const downloadAllNotesAsZip = async (notes: Note[]) => {
-    const zip = new JSZip();
-    const folder = zip.folder("WeaveNote_Export");
-    notes.forEach(note => {
-        const md = `# ${note.title}\n\n${note.content}`;
-        folder?.file(`${note.title.replace(/[^a-z0-9]/gi, '_')}.md`, md);
+/**
+ * GUEST MIGRATION
+ * Guest notes live in the guest adapter (sessionStorage by default) and are invisible once
+ * someone signs in. On first sign-in they can be moved into the account; anything whose id
+ * already exists there gets a fresh id so account data is never overwritten.
+ */
+export interface GuestData {
+    notes: Note[];
+    folders: Folder[];
+}
+
+export interface GuestMigrationSummary {
+    notesMoved: number;
+    foldersMoved: number;
+    reassignedIds: number;
+}
+
+export const loadGuestData = async (): Promise<GuestData> => ({
+    notes: await guestAdapter.loadNotes(null),
+    folders: await guestAdapter.loadFolders(null)
+});
+
+export const discardGuestData = async (guest: GuestData) => {
+    for (const note of guest.notes) await guestAdapter.deleteNote(note.id, null);
+    for (const folder of guest.folders) await guestAdapter.deleteFolder(folder.id, null);
+};
+
+export const migrateGuestData = async (
+    guest: GuestData,
+    existing: { notes: Note[]; folders: Folder[] },
+    userId: string,
+    actor: string,
+    onProgress?: (done: number, total: number) => void
+): Promise<GuestMigrationSummary> => {
+    const adapter = getStorageAdapter(userId);
+    const takenNoteIds = new Set(existing.notes.map(n => n.id));
+    const takenFolderIds = new Set(existing.folders.map(f => f.id));
+    const folderIdMap = new Map<string, string>();
+    let reassignedIds = 0;
+
+    guest.folders.forEach(folder => {
+        const id = takenFolderIds.has(folder.id) ? crypto.randomUUID() : folder.id;
+        if (id !== folder.id) reassignedIds++;
+        folderIdMap.set(folder.id, id);
     });
+    const folders = guest.folders.map((folder, i) => {
+        const parentId = folder.parentId ? folderIdMap.get(folder.parentId) : undefined;
+        // Nested guest folders keep their sibling order; top-level ones go after the account's.
+        const smartQuery = folder.smartQuery?.folderId ? { ...folder.smartQuery, folderId: folderIdMap.get(folder.smartQuery.folderId) } : folder.smartQuery;
+        return { ...folder, id: folderIdMap.get(folder.id)!, parentId, order: parentId ? folder.order : existing.folders.length + i, smartQuery };
+    });
+
+    const notes = guest.notes.map(note => {
+        const id = takenNoteIds.has(note.id) ? crypto.randomUUID() : note.id;
+        if (id !== note.id) reassignedIds++;
+        const folderId = note.folderId ? folderIdMap.get(note.folderId) : undefined;
+        const { revision, ...rest } = note;
+        return { ...rest, id, folderId, userId };
+    });
+
+    const total = notes.length + folders.length;
+    onProgress?.(0, total);
+    for (const folder of folders) await adapter.saveFolder(sanitizeForFirestore(migrateFolder(folder)), userId);
+    onProgress?.(folders.length, total);
+    await writeNotesInChunks(notes, userId, new Set(), written => onProgress?.(folders.length + written, total));
+
+    await discardGuestData(guest);
+    await logAudit('GUEST_MIGRATION', actor, userId, `Moved ${notes.length} notes and ${folders.length} folders (${reassignedIds} ids reassigned)`);
+    return { notesMoved: notes.length, foldersMoved: folders.length, reassignedIds };
+};
+
+/**
+ * VAULT ENCRYPTION
+ * Enabling or disabling rewrites every note (with bumped revisions, so a device that has not
+ * picked up the change conflicts instead of overwriting ciphertext with plaintext).
+ * Revision history written before enabling stays as it was stored.
+ */
+export const loadVaultConfig = async (userId: string | null) => {
+    const config = userId ? await getStorageAdapter(userId).loadVaultConfig(userId) : null;
+    setVaultConfig(config);
+    return config;
+};
+
+export const enableVaultEncryption = async (passphrase: string, notes: Note[], userId: string, onProgress?: (done: number, total: number) => void) => {
+    if (getVaultState() !== 'disabled') throw new Error('Encryption is already enabled.');
+    const adapter = getStorageAdapter(userId);
+    const config = await createVaultConfig(passphrase);
+    try {
+        await adapter.saveVaultConfig(config, userId);
+    } catch (e) {
+        setVaultConfig(null);
+        throw e;
+    }
+    await writeNotesInChunks(notes, userId, new Set(notes.map(n => n.id)), done => onProgress?.(done, notes.length));
+};
+
+export const disableVaultEncryption = async (notes: Note[], userId: string, onProgress?: (done: number, total: number) => void) => {
+    if (getVaultState() !== 'unlocked') throw new Error('Unlock the vault before turning encryption off.');
+    const adapter = getStorageAdapter(userId);
+    const config = await adapter.loadVaultConfig(userId);
+    setVaultConfig(null);
+    try {
+        await writeNotesInChunks(notes, userId, new Set(notes.map(n => n.id)), done => onProgress?.(done, notes.length));
+        await adapter.saveVaultConfig(null, userId);
+    } catch (e) {
+        setVaultConfig(config);
+        throw e;
+    }
+};
+
+export const downloadAllNotesAsZip = async (notes: Note[], folders: Folder[] = [], options: VaultExportOptions = {}) => {
+    const zip = buildVaultZip(notes, folders, options);
     const blob = await zip.generateAsync({ type: "blob" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `WeaveNote_Export.zip`;
+    link.download = `WeaveNote_Vault.zip`;
     link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
 };
 
-export const exportDataToFile = (notes: Note[]) => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(notes));
+export const exportDataToFile = (notes: Note[], folders: Folder[] = []) => {
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(createBackup(notes, folders)));
     const link = document.createElement('a');
     link.setAttribute("href", dataStr);
     link.setAttribute("download", `WeaveNote_Backup.json`);
@@ -0,0 +1,325 @@
+import { Note, Folder, NoteRevision } from '../types';
+import { StorageAdapter, RecordChange, Unsubscribe, localVaultKey, deleteLocalRevisions } from './storageAdapters';
+import { getAllLocal, putLocal, putManyLocal, deleteLocal, deleteManyLocal, replaceAllLocal } from './localDatabase';
+import { logTraffic } from './trafficService';
+import { NoteConflictError, reportConflict, rememberSyncedBase } from './conflictService';
+import { decryptNote } from './cryptoService';
+
+/**
+ * OFFLINE-FIRST SYNC
+ * Writes land in the local IndexedDB replica first and are queued in an outbox.
+ * The outbox is drained against the remote adapter in the background, retrying
+ * with exponential backoff and again whenever the browser comes back online.
+ */
+
+export type OutboxKind = 'note' | 'folder' | 'revision';
+export type OutboxOp = 'put' | 'delete';
+
+export interface OutboxEntry {
+    id: string; // `${kind}:${entityId}` - later writes to the same entity replace earlier ones
+    kind: OutboxKind;
+    op: OutboxOp;
+    entityId: string;
+    payload?: Note | Folder | NoteRevision;
+    baseRevision?: number; // Revision the first queued edit was based on; kept when later edits coalesce
+    queuedAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+}
+
+export interface SyncStatus {
+    pendingNoteIds: string[];
+    pendingFolderIds: string[];
+    isOnline: boolean;
+    lastError?: string;
+}
+
+export const SYNC_EVENT = 'weavenote_sync_update';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const REMOTE_TIMEOUT_MS = 15000;
+
+let status: SyncStatus = { pendingNoteIds: [], pendingFolderIds: [], isOnline: typeof navigator === 'undefined' ? true : navigator.onLine };
+let retryTimer: number | undefined;
+let flushing: Promise<void> | null = null;
+let activeOwner: string | null = null;
+let activeRemote: StorageAdapter | null = null;
+
+export const getSyncStatus = (): SyncStatus => status;
+
+const publishStatus = (entries: OutboxEntry[], lastError?: string) => {
+    status = {
+        pendingNoteIds: entries.filter(e => e.kind === 'note').map(e => e.entityId),
+        pendingFolderIds: entries.filter(e => e.kind === 'folder').map(e => e.entityId),
+        isOnline: navigator.onLine,
+        lastError
+    };
+    window.dispatchEvent(new CustomEvent(SYNC_EVENT, { detail: status }));
+};
+
+const backoffDelay = (attempts: number) => Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+
+// Firestore keeps offline writes pending indefinitely, so treat a slow ack as a failure and retry later.
+const withTimeout = <T>(promise: Promise<T>): Promise<T> => new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => reject(new Error('Remote write timed out.')), REMOTE_TIMEOUT_MS);
+    promise.then(
+        value => { clearTimeout(timer); resolve(value); },
+        err => { clearTimeout(timer); reject(err); }
+    );
+});
+
+const applyEntry = async (remote: StorageAdapter, entry: OutboxEntry, userId: string | null) => {
+    if (entry.kind === 'note') {
+        if (entry.op === 'put') await remote.saveNote(entry.payload as Note, userId, { baseRevision: entry.baseRevision });
+        else await remote.deleteNote(entry.entityId, userId);
+    } else if (entry.kind === 'folder') {
+        if (entry.op === 'put') await remote.saveFolder(entry.payload as Folder, userId);
+        else await remote.deleteFolder(entry.entityId, userId);
+    } else {
+        await remote.appendRevision(entry.payload as NoteRevision, userId);
+    }
+};
+
+const scheduleRetry = (entries: OutboxEntry[]) => {
+    clearTimeout(retryTimer);
+    if (entries.length === 0) return;
+    const nextAt = Math.min(...entries.map(e => e.nextAttemptAt));
+    retryTimer = window.setTimeout(() => { flushOutbox(); }, Math.max(0, nextAt - Date.now()));
+};
+
+export const getOutbox = (userId: string | null) => getAllLocal<OutboxEntry>('outbox', userId);
+
+/**
+ * Drains due outbox entries in queue order. Safe to call repeatedly; concurrent calls share one run.
+ */
+export const flushOutbox = (force: boolean = false): Promise<void> => {
+    if (flushing) return flushing;
+    const remote = activeRemote;
+    const userId = activeOwner;
+    if (!remote || !userId) return Promise.resolve();
+
+    flushing = (async () => {
+        let lastError: string | undefined;
+        try {
+            const entries = (await getOutbox(userId)).sort((a, b) => a.queuedAt - b.queuedAt);
+            for (const entry of entries) {
+                if (!force && entry.nextAttemptAt > Date.now()) continue;
+                if (!navigator.onLine) break;
+                try {
+                    await withTimeout(applyEntry(remote, entry, userId));
+                    if (entry.kind === 'note' && entry.op === 'put') {
+                        // The server now holds this version, so later merges compare against it
+                        const confirmed = await decryptNote(entry.payload as Note);
+                        if (!confirmed.encrypted) rememberSyncedBase(confirmed);
+                    }
+                    // Only clear the entry if it was not superseded while the write was in flight.
+                    const latest = (await getOutbox(userId)).find(e => e.id === entry.id);
+                    if (latest && latest.queuedAt === entry.queuedAt) await deleteLocal('outbox', entry.id, userId);
+                } catch (e: any) {
+                    if (e instanceof NoteConflictError) {
+                        // Not retryable: hand both versions to the merge UI and drop the queued write.
+                        await deleteLocal('outbox', entry.id, userId);
+                        reportConflict({ local: await decryptNote(entry.payload as Note), remote: await decryptNote(e.remote) });
+                        continue;
+                    }
+                    lastError = e?.message || String(e);
+                    const attempts = entry.attempts + 1;
+                    await putLocal('outbox', { ...entry, attempts, nextAttemptAt: Date.now() + backoffDelay(attempts), lastError }, userId);
+                    logTraffic(entry.op === 'delete' ? 'DELETE' : 'POST', `outbox/${entry.kind}s`, 503, 0);
+                }
+            }
+        } finally {
+            const remaining = await getOutbox(userId);
+            publishStatus(remaining, lastError);
+            scheduleRetry(remaining);
+            flushing = null;
+        }
+    })();
+    return flushing;
+};
+
+type QueuedWrite = Omit<OutboxEntry, 'id' | 'queuedAt' | 'attempts' | 'nextAttemptAt'>;
+
+// Bulk writes (imports, folder moves, vault changes) are queued in one pass over the outbox.
+const enqueueMany = async (writes: QueuedWrite[], userId: string | null) => {
+    if (writes.length === 0) return;
+    const now = Date.now();
+    const existing = new Map((await getOutbox(userId)).map(e => [e.id, e]));
+    const entries: OutboxEntry[] = writes.map(entry => {
+        const id = `${entry.kind}:${entry.entityId}`;
+        const previous = existing.get(id);
+        const baseRevision = previous && previous.op === 'put' && previous.baseRevision !== undefined ? previous.baseRevision : entry.baseRevision;
+        return { ...entry, id, baseRevision, queuedAt: now, attempts: 0, nextAttemptAt: now };
+    });
+    await putManyLocal('outbox', entries, userId);
+    publishStatus(await getOutbox(userId), status.lastError);
+    flushOutbox();
+};
+
+const enqueue = (entry: QueuedWrite, userId: string | null) => enqueueMany([entry], userId);
+
+const overlayPending = <T extends { id: string }>(items: T[], pending: OutboxEntry[], kind: OutboxKind): T[] => {
+    const byId = new Map(items.map(i => [i.id, i]));
+    pending.filter(e => e.kind === kind).forEach(e => {
+        if (e.op === 'delete') byId.delete(e.entityId);
+        else byId.set(e.entityId, e.payload as unknown as T);
+    });
+    return Array.from(byId.values());
+};
+
+/**
+ * Wraps a remote adapter with a local replica and outbox.
+ * Reads come from the remote when reachable (with queued local edits layered on top) and from the replica otherwise.
+ */
+export const createOfflineFirstAdapter = (remote: StorageAdapter): StorageAdapter => {
+    const track = (userId: string | null) => {
+        if (activeOwner !== userId) clearTimeout(retryTimer);
+        activeOwner = userId;
+        activeRemote = remote;
+    };
+
+    const loadWithReplica = async <T extends { id: string }>(
+        kind: OutboxKind,
+        userId: string | null,
+        fetchRemote: () => Promise<T[]>
+    ): Promise<T[]> => {
+        track(userId);
+        const store = kind === 'note' ? 'notes' : 'folders';
+        const pending = await getOutbox(userId);
+        publishStatus(pending, status.lastError);
+        if (navigator.onLine) {
+            try {
+                const merged = overlayPending(await withTimeout(fetchRemote()), pending, kind);
+                await replaceAllLocal(store, merged, userId);
+                if (pending.length > 0) flushOutbox(true);
+                return merged;
+            } catch (e) {
+                console.warn(`Remote ${store} unavailable, serving local replica`, e);
+            }
+        }
+        return overlayPending(await getAllLocal<T>(store, userId), pending, kind);
+    };
+
+    // Live changes refresh the replica; entities with queued local edits are left for the outbox to settle.
+    const watchWithReplica = <T extends { id: string }>(
+        kind: OutboxKind,
+        userId: string,
+        subscribe: ((userId: string, onChange: (changes: RecordChange<T>[]) => void) => Unsubscribe) | undefined,
+        onChange: (changes: RecordChange<T>[]) => void
+    ): Unsubscribe => {
+        if (!subscribe) return () => {};
+        const store = kind === 'note' ? 'notes' : 'folders';
+        let queue = Promise.resolve();
+        return subscribe(userId, changes => {
+            queue = queue.then(async () => {
+                const pending = new Set((await getOutbox(userId)).filter(e => e.kind === kind).map(e => e.entityId));
+                const settled = changes.filter(c => !pending.has(c.type === 'remove' ? c.id : c.record.id));
+                for (const change of settled) {
+                    if (change.type === 'remove') await deleteLocal(store, change.id, userId);
+                    else await putLocal(store, change.record, userId);
+                }
+                if (settled.length > 0) onChange(settled);
+            }).catch(e => console.warn(`Failed to apply live ${store} changes`, e));
+        });
+    };
+
+    return {
+        name: `${remote.name}+offline`,
+
+        loadNotes: (userId) => loadWithReplica<Note>('note', userId, () => remote.loadNotes(userId)),
+
+        async saveNote(note, userId, options = {}) {
+            track(userId);
+            await putLocal('notes', note, userId);
+            await enqueue({ kind: 'note', op: 'put', entityId: note.id, payload: note, baseRevision: options.baseRevision }, userId);
+        },
+
+        async saveNotes(notes, userId) {
+            track(userId);
+            await putManyLocal('notes', notes, userId);
+            await enqueueMany(notes.map(note => ({ kind: 'note', op: 'put', entityId: note.id, payload: note })), userId);
+        },
+
+        async deleteNote(noteId, userId) {
+            track(userId);
+            await deleteLocal('notes', noteId, userId);
+            // The remote delete removes the history too; unsent revisions of the note are dropped rather than sent after it
+            await deleteLocalRevisions(noteId, userId);
+            const unsent = (await getOutbox(userId)).filter(e => e.kind === 'revision' && (e.payload as NoteRevision | undefined)?.noteId === noteId);
+            await deleteManyLocal('outbox', unsent.map(e => e.id), userId);
+            await enqueue({ kind: 'note', op: 'delete', entityId: noteId }, userId);
+        },
+
+        loadFolders: (userId) => loadWithReplica<Folder>('folder', userId, () => remote.loadFolders(userId)),
+
+        async saveFolder(folder, userId) {
+            track(userId);
+            await putLocal('folders', folder, userId);
+            await enqueue({ kind: 'folder', op: 'put', entityId: folder.id, payload: folder }, userId);
+        },
+
+        async deleteFolder(folderId, userId) {
+            track(userId);
+            await deleteLocal('folders', folderId, userId);
+            await enqueue({ kind: 'folder', op: 'delete', entityId: folderId }, userId);
+        },
+
+        async appendRevision(revision, userId) {
+            track(userId);
+            await putLocal('revisions', revision, userId);
+            await enqueue({ kind: 'revision', op: 'put', entityId: revision.id, payload: revision }, userId);
+        },
+
+        async loadRevisions(noteId, userId) {
+            track(userId);
+            const local = (await getAllLocal<NoteRevision>('revisions', userId)).filter(r => r.noteId === noteId);
+            if (!navigator.onLine) return local;
+            try {
+                const remoteRevisions = await withTimeout(remote.loadRevisions(noteId, userId));
+                await putManyLocal('revisions', remoteRevisions, userId);
+                const byId = new Map([...local, ...remoteRevisions].map(r => [r.id, r]));
+                return Array.from(byId.values());
+            } catch (e) {
+                return local;
+            }
+        },
+
+        // The vault config is cached locally so an offline reload can still unlock; changes need the server.
+        async loadVaultConfig(userId) {
+            track(userId);
+            const cacheKey = localVaultKey(userId);
+            if (navigator.onLine) {
+                try {
+                    const config = await withTimeout(remote.loadVaultConfig(userId));
+                    if (config) localStorage.setItem(cacheKey, JSON.stringify(config));
+                    else localStorage.removeItem(cacheKey);
+                    return config;
+                } catch (e) {
+                    console.warn('Remote vault config unavailable, using cached copy', e);
+                }
+            }
+            try {
+                return JSON.parse(localStorage.getItem(cacheKey) || 'null');
+            } catch {
+                return null;
+            }
+        },
+
+        async saveVaultConfig(config, userId) {
+            track(userId);
+            await withTimeout(remote.saveVaultConfig(config, userId));
+            if (config) localStorage.setItem(localVaultKey(userId), JSON.stringify(config));
+            else localStorage.removeItem(localVaultKey(userId));
+        },
+
+        subscribeNotes: (userId, onChange) => watchWithReplica<Note>('note', userId, remote.subscribeNotes?.bind(remote), onChange),
+        subscribeFolders: (userId, onChange) => watchWithReplica<Folder>('folder', userId, remote.subscribeFolders?.bind(remote), onChange)
+    };
+};
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => { flushOutbox(true); });
+    window.addEventListener('offline', () => { status = { ...status, isOnline: false }; window.dispatchEvent(new CustomEvent(SYNC_EVENT, { detail: status })); });
+}
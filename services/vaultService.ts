@@ -0,0 +1,300 @@
+import JSZip from 'jszip';
+import { Note, Folder, NoteColor } from '../types';
+import { buildFolderTree, flattenFolderTree, isSmartFolder } from './folderService';
+import { ImportReport, NOTE_TYPES, NOTE_COLOR_VALUES, MAX_FIELD_LENGTH } from './backupService';
+
+/**
+ * MARKDOWN VAULT (Obsidian-compatible)
+ * One `.md` file per note with YAML frontmatter, folders as directories.
+ * Frontmatter values are written as JSON, which is valid YAML, so nested
+ * projectData round-trips without a YAML library.
+ */
+
+export const VAULT_ROOT = 'WeaveNote_Vault';
+export const VAULT_TRASH_DIR = '.trash';
+export const VAULT_ATTACHMENTS_DIR = 'attachments';
+
+export interface VaultExportOptions {
+    includeAttachments?: boolean;
+    includeTrash?: boolean;
+}
+
+// Characters Obsidian (and most filesystems) refuse in file names.
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|#^[\]\u0000-\u001f]/g;
+
+export const toSafeFileName = (name: string): string => {
+    const cleaned = name.replace(UNSAFE_FILENAME_CHARS, '-').replace(/\s+/g, ' ').trim().replace(/^\.+/, '');
+    return cleaned.substring(0, 120) || 'Untitled';
+};
+
+// Hands out "Name", "Name (2)", ... per directory, case-insensitively.
+const createNameAllocator = () => {
+    const used = new Map<string, Set<string>>();
+    return (dir: string, base: string, ext: string): string => {
+        if (!used.has(dir)) used.set(dir, new Set());
+        const taken = used.get(dir)!;
+        let candidate = `${base}${ext}`;
+        for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${base} (${n})${ext}`;
+        taken.add(candidate.toLowerCase());
+        return candidate;
+    };
+};
+
+const yamlKey = (key: string, value: unknown): string => {
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        return value.length === 0 ? `${key}: []` : `${key}:\n${value.map(v => `  - ${JSON.stringify(v)}`).join('\n')}`;
+    }
+    return `${key}: ${JSON.stringify(value)}`;
+};
+
+/**
+ * Serializes every Note field except the body (content) and owner id into frontmatter.
+ */
+export const buildFrontmatter = (note: Note, extra: Record<string, unknown> = {}): string => {
+    const { content, userId, ...fields } = note;
+    const entries: Record<string, unknown> = {
+        ...fields,
+        created: new Date(note.createdAt).toISOString(),
+        ...extra
+    };
+    if (entries.rawContent === content) delete entries.rawContent;
+    const lines = Object.entries(entries)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => yamlKey(key, value));
+    return `---\n${lines.join('\n')}\n---\n`;
+};
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,(.*)$/;
+
+const extensionForMime = (mime: string) => {
+    const subtype = mime.split('/')[1] || 'bin';
+    return subtype === 'jpeg' ? 'jpg' : subtype.replace(/\+.*$/, '');
+};
+
+export const buildVaultZip = (notes: Note[], folders: Folder[], options: VaultExportOptions = {}): JSZip => {
+    const zip = new JSZip();
+    const root = zip.folder(VAULT_ROOT)!;
+    const allocate = createNameAllocator();
+    const folderDirs = new Map<string, string>();
+    // Parents come first in tree order, so each subfolder nests under its parent's directory.
+    flattenFolderTree(buildFolderTree(folders)).forEach(({ folder }) => {
+        const parentDir = folder.parentId ? folderDirs.get(folder.parentId) || '' : '';
+        const name = allocate(parentDir, toSafeFileName(folder.name), '');
+        folderDirs.set(folder.id, parentDir ? `${parentDir}/${name}` : name);
+    });
+
+    notes
+        .filter(note => options.includeTrash || !note.isDeleted)
+        .forEach(note => {
+            const folderDir = note.folderId ? folderDirs.get(note.folderId) || '' : '';
+            const dir = note.isDeleted ? [VAULT_TRASH_DIR, folderDir].filter(Boolean).join('/') : folderDir;
+            const fileName = allocate(dir, toSafeFileName(note.title), '.md');
+
+            const embeds: string[] = [];
+            const remoteAttachments: string[] = [];
+            if (options.includeAttachments) {
+                (note.attachments || []).forEach((att, i) => {
+                    const match = att.match(DATA_URL_PATTERN);
+                    if (!match) { remoteAttachments.push(att); return; }
+                    const attName = allocate(VAULT_ATTACHMENTS_DIR, `${toSafeFileName(note.title)}-${i + 1}`, `.${extensionForMime(match[1])}`);
+                    root.file(`${VAULT_ATTACHMENTS_DIR}/${attName}`, match[2], { base64: true });
+                    embeds.push(`![[${attName}]]`);
+                });
+            }
+
+            const { attachments, ...withoutAttachments } = note;
+            const frontmatter = buildFrontmatter(
+                withoutAttachments as Note,
+                options.includeAttachments && remoteAttachments.length > 0 ? { attachments: remoteAttachments } : {}
+            );
+            const body = embeds.length > 0 ? `${note.content}\n\n${embeds.join('\n')}\n` : note.content;
+            root.file(dir ? `${dir}/${fileName}` : fileName, `${frontmatter}\n${body}`);
+        });
+
+    return zip;
+};
+
+/**
+ * FRONTMATTER PARSING
+ * Handles the subset of YAML that Obsidian and our own export produce:
+ * scalars, JSON/flow values, block lists and one level of nested keys.
+ */
+const parseYamlScalar = (raw: string): unknown => {
+    const value = raw.trim();
+    if (value === '' || value === '~' || value === 'null') return null;
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    if (/^["[{]/.test(value)) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            if (value.startsWith('[') && value.endsWith(']')) {
+                return value.slice(1, -1).split(',').map(v => parseYamlScalar(v)).filter(v => v !== null);
+            }
+        }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+    return value;
+};
+
+export const parseFrontmatter = (text: string): { data: Record<string, any>; body: string } => {
+    const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    if (!match) return { data: {}, body: text };
+
+    const data: Record<string, any> = {};
+    let currentKey: string | null = null;
+    match[1].split(/\r?\n/).forEach(line => {
+        if (!line.trim() || line.trim().startsWith('#')) return;
+        const listItem = line.match(/^\s*-\s+(.*)$/);
+        if (listItem && currentKey) {
+            if (!Array.isArray(data[currentKey])) data[currentKey] = [];
+            data[currentKey].push(parseYamlScalar(listItem[1]));
+            return;
+        }
+        const nested = line.match(/^\s+([\w-]+):\s*(.*)$/);
+        if (nested && currentKey) {
+            if (typeof data[currentKey] !== 'object' || data[currentKey] === null || Array.isArray(data[currentKey])) data[currentKey] = {};
+            data[currentKey][nested[1]] = parseYamlScalar(nested[2]);
+            return;
+        }
+        const pair = line.match(/^([^\s:][^:]*):\s*(.*)$/);
+        if (pair) {
+            currentKey = pair[1].trim();
+            data[currentKey] = pair[2].trim() === '' ? null : parseYamlScalar(pair[2]);
+        }
+    });
+    return { data, body: text.slice(match[0].length).replace(/^\r?\n/, '') };
+};
+
+/**
+ * MARKDOWN VAULT IMPORT
+ * Directories become nested folders (matched by name against existing ones), frontmatter fills
+ * note fields, and Obsidian link variants are normalised to `[[Note Title]]`.
+ */
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|([^\]]+))?\]\]/g;
+
+const baseName = (path: string) => path.split('/').pop()!.replace(/\.md$/i, '');
+
+const toTagList = (value: unknown): string[] => {
+    const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+    return list.filter((t): t is string => typeof t === 'string' && !!t.trim()).map(t => t.trim().replace(/^#/, '').toLowerCase());
+};
+
+const toTimestamp = (value: unknown): number | undefined => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+        const parsed = Date.parse(value);
+        if (!Number.isNaN(parsed)) return parsed;
+    }
+    return undefined;
+};
+
+export const parseVaultZip = async (file: Blob, existing: { notes: Note[]; folders: Folder[] }): Promise<ImportReport> => {
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files).filter(f => !f.dir && !f.name.startsWith('__MACOSX/'));
+    const warnings: string[] = [];
+    const errors: string[] = [];
+
+    // Strip a single wrapping directory (e.g. "WeaveNote_Vault/") so it does not become a folder.
+    const tops = new Set(entries.map(f => f.name.split('/')[0]));
+    const wrapper = tops.size === 1 && entries.every(f => f.name.includes('/')) ? `${Array.from(tops)[0]}/` : '';
+    const relative = (name: string) => name.slice(wrapper.length);
+
+    const isHidden = (path: string) => path.split('/').some(seg => seg.startsWith('.') && seg !== VAULT_TRASH_DIR);
+    const markdown = entries.filter(f => /\.md$/i.test(f.name) && !isHidden(relative(f.name)));
+    const ignored = entries.length - markdown.length;
+
+    // Each directory level is matched by name under its parent, so "Work/Clients" nests Clients in Work.
+    const folderKey = (parentId: string | undefined, name: string) => `${parentId || ''}/${name.toLowerCase()}`;
+    const foldersByPath = new Map(existing.folders.filter(f => !isSmartFolder(f)).map(f => [folderKey(f.parentId, f.name), f]));
+    const newFolders: Folder[] = [];
+    const folderFor = (dir: string): string | undefined => {
+        let parentId: string | undefined;
+        for (const name of dir.split('/').filter(Boolean)) {
+            const found = foldersByPath.get(folderKey(parentId, name));
+            if (found) { parentId = found.id; continue; }
+            const siblings = [...existing.folders, ...newFolders].filter(f => f.parentId === parentId).length;
+            const folder: Folder = { id: crypto.randomUUID(), name, order: siblings, ...(parentId ? { parentId } : {}) };
+            foldersByPath.set(folderKey(parentId, name), folder);
+            newFolders.push(folder);
+            parentId = folder.id;
+        }
+        return parentId;
+    };
+
+    const drafts: { note: Note; path: string }[] = [];
+    for (const entry of markdown) {
+        const path = relative(entry.name);
+        try {
+            const { data, body } = parseFrontmatter(await entry.async('string'));
+            const segments = path.split('/').slice(0, -1);
+            const inTrash = segments[0] === VAULT_TRASH_DIR;
+            const dir = (inTrash ? segments.slice(1) : segments).join('/');
+            const created = toTimestamp(data.createdAt) ?? toTimestamp(data.created) ?? toTimestamp(data.date) ?? entry.date.getTime();
+            const inlineTags = (body.match(/(?:^|\s)#(\w+)/g) || []).map(m => m.trim().substring(1).toLowerCase());
+            const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : baseName(path);
+
+            if (body.length > MAX_FIELD_LENGTH) warnings.push(`${path}: longer than ${MAX_FIELD_LENGTH} characters and will be truncated`);
+
+            const note: Note = {
+                id: typeof data.id === 'string' && data.id ? data.id : crypto.randomUUID(),
+                title,
+                content: body,
+                rawContent: typeof data.rawContent === 'string' ? data.rawContent : body,
+                category: typeof data.category === 'string' && data.category ? data.category : (dir.split('/')[0] || 'Imported'),
+                tags: Array.from(new Set([...toTagList(data.tags ?? data.tag), ...inlineTags])),
+                color: NOTE_COLOR_VALUES.includes(data.color) ? data.color : NoteColor.Yellow,
+                createdAt: created,
+                type: NOTE_TYPES.includes(data.type) ? data.type : 'document',
+                ...(dir ? { folderId: folderFor(dir) } : {}),
+                ...(data.projectData && typeof data.projectData === 'object' ? { projectData: data.projectData } : {}),
+                ...(Array.isArray(data.attachments) ? { attachments: data.attachments.filter((a: unknown) => typeof a === 'string') } : {}),
+                ...(inTrash || data.isDeleted === true ? { isDeleted: true, deletedAt: toTimestamp(data.deletedAt) ?? Date.now() } : {})
+            };
+            drafts.push({ note, path });
+        } catch (e: any) {
+            errors.push(`${path}: ${e?.message || 'could not be read'}`);
+        }
+    }
+
+    // Resolve links against both the incoming files and notes already in the vault.
+    const titles = new Map<string, string>();
+    existing.notes.forEach(n => titles.set(n.title.toLowerCase(), n.title));
+    drafts.forEach(({ note, path }) => {
+        titles.set(baseName(path).toLowerCase(), note.title);
+        titles.set(note.title.toLowerCase(), note.title);
+    });
+
+    let converted = 0;
+    let unresolved = 0;
+    let embeds = 0;
+    drafts.forEach(({ note }) => {
+        note.content = note.content.replace(WIKILINK_PATTERN, (whole, bang: string, target: string, alias?: string) => {
+            if (bang) { embeds++; return whole; }
+            const key = target.split('/').pop()!.replace(/\.md$/i, '').trim().toLowerCase();
+            const title = titles.get(key);
+            if (!title) { unresolved++; return `[[${target.trim()}]]`; }
+            converted++;
+            return alias && alias.trim() !== title ? `[[${title}|${alias.trim()}]]` : `[[${title}]]`;
+        });
+    });
+
+    if (unresolved > 0) warnings.push(`${unresolved} links point to notes that are not in this vault; they were kept as plain [[links]].`);
+    if (embeds > 0) warnings.push(`${embeds} embedded files (![[...]]) were left as text; attachments are not imported from Markdown.`);
+
+    const existingIds = new Set(existing.notes.map(n => n.id));
+    const notes = drafts.map(d => d.note);
+    return {
+        source: 'Markdown vault',
+        backup: { notes, folders: newFolders, errors },
+        stats: [
+            { label: 'Notes', value: notes.length },
+            { label: 'New Folders', value: newFolders.length },
+            { label: 'Links Converted', value: converted },
+            { label: 'Already In Vault', value: notes.filter(n => existingIds.has(n.id)).length },
+            { label: 'Files Ignored', value: ignored }
+        ],
+        warnings
+    };
+};
@@ -6,7 +6,19 @@ export type Theme = 'default' | 'ocean' | 'forest' | 'sunset' | 'rose' | 'midnig
 export interface Folder {
   id: string;
   name: string;
-  order: number;
+  order: number; // Position among siblings
+  parentId?: string; // Missing = top level
+  schemaVersion?: number; // See services/migrationService; missing means 0
+  smartQuery?: SmartFolderQuery; // Present on smart folders, which hold no notes and sit outside the tree
+}
+
+// The view filters a smart folder re-applies; mirrors the filter state in App.
+export interface SmartFolderQuery {
+  noteType?: NoteType;
+  tag?: string;
+  folderId?: string;
+  date?: string; // Local day, YYYY-MM-DD
+  search?: string; // Query string, see services/searchService
 }
 
 export interface ProjectMilestone {
@@ -64,6 +76,41 @@ export interface Note {
   userId?: string; // Owner ID for Firebase
   isDeleted?: boolean;
   deletedAt?: number;
+  revision?: number; // Incremented on every save; used to detect stale writes
+  updatedAt?: number;
+  encrypted?: EncryptedPayload; // Present when title/content/rawContent/projectData are sealed by the vault
+  schemaVersion?: number; // See services/migrationService; missing means 0
+}
+
+// Immutable snapshot of a note's editable fields, appended on every content-changing save
+export interface NoteRevision {
+  id: string; // `${noteId}:${revision}`
+  noteId: string;
+  revision: number;
+  createdAt: number;
+  title: string;
+  content: string;
+  category: string;
+  tags: string[];
+  projectData?: ProjectData;
+  encrypted?: EncryptedPayload;
+}
+
+// AES-GCM ciphertext of a note's private fields
+export interface EncryptedPayload {
+  v: 1;
+  iv: string; // base64
+  data: string; // base64
+}
+
+// Per-account key derivation settings; the passphrase itself is never stored
+export interface VaultConfig {
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  verifier: EncryptedPayload; // Known plaintext sealed with the derived key, used to check the passphrase
+  createdAt: number;
 }
 
 export enum NoteColor {
@@ -114,6 +161,23 @@ export interface ProcessedNoteData {
   projectData?: ProjectData;
 }
 
+// A note handed to the model as context for a chat answer; cited as [index].
+export interface ChatSource {
+  index: number;
+  noteId: string;
+  title: string;
+  excerpt: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  sources?: ChatSource[];
+  error?: string;
+  timestamp: number;
+}
+
 // Hierarchical roles for NIST/SOC2 compliance
 export type Permission = 'read' | 'edit';
 export type UserStatus = 'active' | 'suspended' | 'pending';
@@ -131,6 +195,7 @@ export interface User {
   country?: string;
   countryFlag?: string;
   aiUsageCount?: number;
+  trashRetentionDays?: number; // Overrides the admin default; 0 keeps trash forever
 }
 
 export interface UserUsageStats {